@@ -2,11 +2,19 @@
 import { defineConfig } from 'astro/config';
 import tailwindcss from '@tailwindcss/vite';
 import cloudflare from '@astrojs/cloudflare';
+import lessonValidation from './src/integrations/lesson-validation';
+import messageCatalog from './src/integrations/message-catalog';
+import searchIndex from './src/integrations/search-index';
+import remarkDialogue from './src/lib/dialogue/remark-dialogue';
 
 // https://astro.build/config
 export default defineConfig({
   output: 'server', // Server-side rendering for authentication
   adapter: cloudflare(),
+  integrations: [lessonValidation(), messageCatalog(), searchIndex()],
+  markdown: {
+    remarkPlugins: [remarkDialogue],
+  },
   vite: {
     plugins: [tailwindcss()],
   },
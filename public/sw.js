@@ -0,0 +1,294 @@
+/**
+ * Service Worker
+ *
+ * Offline support for the course (registered from src/lib/offline/register.ts):
+ * - Precaches the app shell: fonts, icons, the manifest and the offline page
+ * - Pages are fetched network first and kept for offline use once visited
+ * - Whole sections can be saved on request from the Offline Reading page
+ * - Build assets, fonts, images and audio are served cache first
+ *
+ * Works with the auth middleware rather than around it:
+ * - Redirects are passed through and never cached
+ * - API responses are never cached, except the (content-only) search index
+ * - Saved pages are per user, so they are cleared on logout and as soon as
+ *   a request is redirected to /login, i.e. the session has ended
+ *
+ * Bump VERSION to drop every cache from previous versions.
+ */
+
+const VERSION = 'v1';
+const SHELL_CACHE = `shell-${VERSION}`;
+const ASSET_CACHE = `assets-${VERSION}`;
+const PAGE_CACHE = `pages-${VERSION}`;
+
+const OFFLINE_URL = '/offline';
+const LOGIN_PATH = '/login';
+const LOGOUT_PATH = '/logout';
+const SEARCH_INDEX_PATH = '/api/search';
+
+const SHELL_URLS = [
+  '/manifest.webmanifest',
+  '/fonts/atkinson-regular.ttf',
+  '/fonts/atkinson-bold.ttf',
+  '/fonts/chilanga-regular.ttf',
+  '/images/app-icon.svg',
+  '/images/rotulo-header-desktop-light.svg',
+  '/images/rotulo-header-desktop-dark.svg',
+  '/images/rotulo-header-mobile-light.svg',
+  '/images/rotulo-header-mobile-dark.svg',
+];
+
+// Never stored: the sign-in flow only makes sense online, and admin pages
+// show other users' data
+const UNCACHED_PAGES = ['/login', '/logout', '/setup', '/admin'];
+const UNCACHED_PAGE_PREFIXES = ['/invite/', '/admin/'];
+
+// Hashed build output and other files that never change at the same URL
+const ASSET_PREFIXES = ['/_astro/', '/fonts/', '/images/', '/audio/'];
+
+// Build assets referenced from a page's HTML, saved alongside it
+const PAGE_ASSET_PATTERN = /(?:href|src)="(\/_astro\/[^"]+)"/g;
+
+/** Cache key for a page: path only, so ?query and #hash share an entry */
+function pageKey(url) {
+  return new URL(url, self.location.origin).pathname;
+}
+
+function isAssetPath(pathname) {
+  return ASSET_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+}
+
+function isCacheablePage(pathname) {
+  return (
+    !UNCACHED_PAGES.includes(pathname) &&
+    !UNCACHED_PAGE_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+  );
+}
+
+/** The middleware sent this request to the login page: the session is gone */
+function isSignedOut(response) {
+  return response.redirected && new URL(response.url).pathname === LOGIN_PATH;
+}
+
+/**
+ * Whether a page redirects to the login page. Navigations do not follow
+ * redirects (the browser does), so their response hides the target: this
+ * requests the page again, following redirects, to find out.
+ */
+async function redirectsToLogin(url) {
+  try {
+    return isSignedOut(await fetch(url, { credentials: 'same-origin' }));
+  } catch {
+    return false;
+  }
+}
+
+/** Remove everything that belongs to the signed-in user */
+function clearUserCaches() {
+  return caches.delete(PAGE_CACHE);
+}
+
+async function cacheAssetsFrom(html) {
+  const cache = await caches.open(ASSET_CACHE);
+  const urls = [...html.matchAll(PAGE_ASSET_PATTERN)].map((match) => match[1]);
+
+  await Promise.all(
+    [...new Set(urls)].map(async (url) => {
+      if (await cache.match(url)) return;
+      try {
+        await cache.add(url);
+      } catch {
+        // Served from the network (or missing) when the page is next opened
+      }
+    }),
+  );
+}
+
+/**
+ * Fetch a page and store it with its build assets.
+ * Throws if the page is not available to the signed-in user.
+ */
+async function savePage(url) {
+  const response = await fetch(url, { credentials: 'same-origin' });
+
+  if (isSignedOut(response)) {
+    await clearUserCaches();
+    throw new Error('Signed out');
+  }
+  if (!response.ok) throw new Error(`${url}: ${response.status}`);
+
+  const html = await response.clone().text();
+  const cache = await caches.open(PAGE_CACHE);
+  await cache.put(pageKey(url), response);
+  await cacheAssetsFrom(html);
+}
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll(SHELL_URLS);
+      // Needs a session; the fallback below covers installs that lack one
+      await savePage(OFFLINE_URL).catch(() => {});
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, ASSET_CACHE, PAGE_CACHE];
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names.filter((name) => !current.includes(name)).map((name) => caches.delete(name)),
+      );
+      await self.clients.claim();
+    })(),
+  );
+});
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok && response.type === 'basic') {
+    const cache = await caches.open(ASSET_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function offlineResponse() {
+  return (
+    (await caches.match(OFFLINE_URL)) ??
+    new Response('You are offline and this page has not been saved.', {
+      status: 503,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+    })
+  );
+}
+
+async function networkFirstPage(request) {
+  const key = pageKey(request.url);
+
+  let response;
+  try {
+    response = await fetch(request);
+  } catch {
+    return (await caches.match(key)) ?? offlineResponse();
+  }
+
+  if (response.type === 'opaqueredirect') {
+    if (await redirectsToLogin(request.url)) await clearUserCaches();
+  } else if (response.ok && isCacheablePage(key)) {
+    const cache = await caches.open(PAGE_CACHE);
+    await cache.put(key, response.clone());
+  }
+  return response;
+}
+
+async function networkFirstSearchIndex(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok && !response.redirected) {
+      const cache = await caches.open(PAGE_CACHE);
+      await cache.put(SEARCH_INDEX_PATH, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(SEARCH_INDEX_PATH);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Logging out (GET link or POST form): forget this user's pages
+  if (url.pathname === LOGOUT_PATH) {
+    event.waitUntil(clearUserCaches());
+    return;
+  }
+
+  if (request.method !== 'GET') return;
+
+  if (url.pathname === SEARCH_INDEX_PATH) {
+    event.respondWith(networkFirstSearchIndex(request));
+  } else if (url.pathname.startsWith('/api/')) {
+    // Progress, reviews etc. go straight to the network
+    return;
+  } else if (isAssetPath(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  }
+});
+
+// ============================================================================
+// Messages from src/lib/offline/client.ts (replies go to the given port)
+// ============================================================================
+
+async function savePages(urls, port) {
+  let saved = 0;
+  let failed = 0;
+
+  // One at a time: a section is a handful of pages, and this keeps the
+  // progress messages in order
+  for (const url of urls) {
+    try {
+      await savePage(url);
+      saved++;
+    } catch {
+      failed++;
+    }
+    port.postMessage({ type: 'progress', done: saved + failed, total: urls.length });
+  }
+
+  port.postMessage({ type: 'done', saved, failed });
+}
+
+async function listSavedPages(port) {
+  const cache = await caches.open(PAGE_CACHE);
+  const requests = await cache.keys();
+  const pages = requests
+    .map((request) => new URL(request.url).pathname)
+    .filter((pathname) => pathname !== SEARCH_INDEX_PATH);
+  port.postMessage({ type: 'pages', pages });
+}
+
+async function removePages(urls, port) {
+  const cache = await caches.open(PAGE_CACHE);
+  await Promise.all(urls.map((url) => cache.delete(pageKey(url))));
+  port.postMessage({ type: 'removed' });
+}
+
+self.addEventListener('message', (event) => {
+  const port = event.ports[0];
+  const message = event.data;
+  if (!port || !message) return;
+
+  switch (message.type) {
+    case 'save-pages':
+      event.waitUntil(savePages(message.urls, port));
+      break;
+    case 'remove-pages':
+      event.waitUntil(removePages(message.urls, port));
+      break;
+    case 'list-pages':
+      event.waitUntil(listSavedPages(port));
+      break;
+  }
+});
@@ -1,24 +1,221 @@
-import { defineCollection, z } from 'astro:content';
+import { defineCollection, reference, z } from 'astro:content';
+import { PERSON_IDS, REGULARITY_CLASSES, STEM_CHANGES, TENSE_IDS } from '../lib/verbs/paradigm';
+import { BLANK_MARKER } from '../lib/drills/types';
+import { LESSON_SECTIONS } from '../lib/content/lesson-rules';
+import { findUndocumentedIpa } from '../lib/ipa/symbols';
+import { AUDIO_URL_PATTERN } from '../lib/audio/paths';
+import { REGISTERS } from '../lib/appendices/entries';
+import { DEFAULT_COURSE } from '../lib/courses';
+
+/** Recording in public/audio/, referenced by URL (existence checked at build) */
+const audio = z
+  .string()
+  .regex(AUDIO_URL_PATTERN, 'Audio must be a /audio/… URL of a file in public/audio/');
+
+const drillBase = {
+  title: z.string().optional(),
+  instructions: z.string().optional(),
+};
+
+const typedAnswerItem = z.object({
+  prompt: z.string(),
+  /** Every accepted answer; accents, case and punctuation are checked leniently */
+  answers: z.array(z.string()).min(1),
+});
+
+const multipleChoiceItem = z.object({
+  question: z.string(),
+  options: z.array(z.string()).min(2),
+  answers: z.array(z.string()).min(1),
+});
+
+const answersAreOptions = (item: { options: string[]; answers: string[] }) =>
+  item.answers.every((answer) => item.options.includes(answer));
+const answersAreOptionsIssue = {
+  message: 'Every answer must be one of the options',
+  path: ['answers'],
+};
+
+/** IPA transcription using only symbols the IPA guide explains */
+const ipaTranscription = z.string().superRefine((ipa, context) => {
+  const unknown = findUndocumentedIpa(ipa);
+  if (unknown.length > 0) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Symbols not covered by the IPA guide: ${unknown.map((char) => JSON.stringify(char)).join(', ')} (see src/lib/ipa/inventory.ts)`,
+    });
+  }
+});
+
+/** Practice drills, see src/lib/drills/types.ts */
+const drill = z.discriminatedUnion('type', [
+  z.object({
+    ...drillBase,
+    type: z.literal('translation'),
+    items: z.array(typedAnswerItem).min(1),
+  }),
+  z.object({
+    ...drillBase,
+    type: z.literal('fill-blank'),
+    items: z
+      .array(
+        typedAnswerItem.refine((item) => item.prompt.split(BLANK_MARKER).length === 2, {
+          message: `Fill-blank prompts must contain exactly one ${BLANK_MARKER}`,
+          path: ['prompt'],
+        }),
+      )
+      .min(1),
+  }),
+  z.object({
+    ...drillBase,
+    type: z.literal('multiple-choice'),
+    items: z.array(multipleChoiceItem.refine(answersAreOptions, answersAreOptionsIssue)).min(1),
+  }),
+  z.object({
+    ...drillBase,
+    type: z.literal('matching'),
+    pairs: z.array(z.object({ term: z.string(), match: z.string() })).min(2),
+  }),
+]);
+
+const navLink = z.object({ title: z.string(), href: z.string().startsWith('/') });
+
+/** One file per course; the body is the course home page */
+const courses = defineCollection({
+  type: 'content',
+  schema: z.object({
+    title: z.string(),
+    /** Used where space is short (course picker, Anki deck name) */
+    shortTitle: z.string(),
+    description: z.string(),
+    /** Position in the course picker */
+    order: z.number().int().positive(),
+    /** Sidebar "Front Matter" and "Appendices" sections */
+    frontMatter: z.array(navLink).default([]),
+    appendices: z.array(navLink).default([]),
+  }),
+});
 
 const lessons = defineCollection({
   type: 'content',
   schema: z.object({
     title: z.string(),
-    section: z.enum(['Foundation', 'Intermediate', 'Advanced']),
-    order: z.number(),
+    /** File name in src/content/courses (checked by the lesson validation integration) */
+    course: z.string().default(DEFAULT_COURSE),
+    section: z.enum(LESSON_SECTIONS),
+    /** Position in the course; must run 1, 2, 3… (checked by the lesson validation integration) */
+    order: z.number().int().positive(),
     description: z.string(),
     vocabulary: z
       .array(
         z.object({
-          spanish: z.string().optional(),
-          ipa: z.string().optional(),
+          spanish: z.string().trim().min(1, 'Vocabulary entries need a Spanish word'),
+          ipa: ipaTranscription.optional(),
           english: z.string().optional(),
           notes: z.string().optional(),
+          audio: audio.optional(),
+        }),
+      )
+      .optional(),
+    /** Main lesson dialogue, one entry per speaker turn */
+    dialogue: z
+      .array(
+        z.object({
+          speaker: z.string().min(1),
+          spanish: z.string().trim().min(1),
+          ipa: ipaTranscription.optional(),
+          english: z.string().optional(),
+          audio: audio.optional(),
         }),
       )
       .optional(),
     grammarTopics: z.array(z.string()).optional(),
+    /** Verbs cited by this lesson, by file name in src/content/verbs */
+    verbs: z.array(reference('verbs')).optional(),
+    /** Self-grading practice drills, rendered after the lesson body */
+    drills: z.array(drill).optional(),
+  }),
+});
+
+const verbForms = z.record(z.enum(PERSON_IDS), z.string());
+
+const verbs = defineCollection({
+  type: 'data',
+  schema: z
+    .object({
+      infinitive: z.string(),
+      english: z.string(),
+      regularity: z.enum(REGULARITY_CLASSES),
+      stemChange: z.enum(STEM_CHANGES).optional(),
+      irregular: z
+        .object({
+          presentYo: z.string().optional(),
+          preteriteStem: z.string().optional(),
+          futureStem: z.string().optional(),
+          gerund: z.string().optional(),
+          participle: z.string().optional(),
+          imperativeTu: z.string().optional(),
+        })
+        .optional(),
+      /** Individual forms that no rule produces (e.g. hizo, está) */
+      overrides: z.record(z.enum(TENSE_IDS), verbForms).optional(),
+      notes: z.string().optional(),
+    })
+    .refine((verb) => verb.regularity !== 'stem-changing' || verb.stemChange, {
+      message: 'Stem-changing verbs must declare a stemChange',
+      path: ['stemChange'],
+    }),
+});
+
+/** Idioms & Expressions appendix, one YAML file per expression */
+const idioms = defineCollection({
+  type: 'data',
+  schema: z.object({
+    expression: z.string().trim().min(1),
+    ipa: ipaTranscription.optional(),
+    /** Word-for-word meaning */
+    literal: z.string().optional(),
+    /** What it actually means */
+    meaning: z.string(),
+    register: z.enum(REGISTERS),
+    /** Where it is used, when not all of Mexico (e.g. "Norte", "CDMX") */
+    region: z.string().optional(),
+    example: z.object({ spanish: z.string(), english: z.string() }).optional(),
+    notes: z.string().optional(),
+    /** Lessons that show this idiom, by file name in src/content/lessons */
+    lessons: z.array(reference('lessons')).optional(),
+  }),
+});
+
+/** Cultural Notes Compendium, one markdown file per note */
+const culturalNotes = defineCollection({
+  type: 'content',
+  schema: z.object({
+    title: z.string(),
+    /** One or two sentences, shown on lesson pages */
+    summary: z.string(),
+    register: z.enum(REGISTERS).optional(),
+    region: z.string().optional(),
+    lessons: z.array(reference('lessons')).optional(),
+  }),
+});
+
+/**
+ * Placement test questions, one YAML file per course (named after it).
+ * Asked alongside items built from the course's lessons, see
+ * src/lib/placement/items.ts
+ */
+const placement = defineCollection({
+  type: 'data',
+  schema: z.object({
+    questions: z
+      .array(
+        multipleChoiceItem
+          .extend({ section: z.enum(LESSON_SECTIONS) })
+          .refine(answersAreOptions, answersAreOptionsIssue),
+      )
+      .default([]),
   }),
 });
 
-export const collections = { lessons };
+export const collections = { courses, lessons, verbs, idioms, culturalNotes, placement };
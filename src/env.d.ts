@@ -5,10 +5,24 @@ declare namespace App {
   interface Locals {
     runtime: {
       env: {
+        /** Only used to bootstrap the first admin account at /setup */
         ACCESS_CODE: string;
+        /** Key for signing session cookies; rotating it logs everyone out */
+        SESSION_SECRET: string;
+        SESSION: KVNamespace;
       };
       cf: CfProperties;
       ctx: ExecutionContext;
     };
+    /** Interface language, set by the middleware from the locale cookie */
+    locale: import('./lib/i18n/locales').Locale;
+    /** Signed-in user, set by the auth middleware on protected routes */
+    user?: import('./lib/auth/types').PublicUser;
   }
 }
+
+declare module 'virtual:search-index' {
+  /** Built at build time, see src/integrations/search-index.ts */
+  const index: import('./lib/search/index-builder').SearchDocument[];
+  export default index;
+}
@@ -0,0 +1,181 @@
+/**
+ * Lesson Validation Integration
+ *
+ * Checks that need every lesson at once, which the per-file content
+ * schema cannot do:
+ * - Errors (fail the build): duplicate or gapped `order` values within a
+ *   course, a `course` with no file in src/content/courses/, and `audio`
+ *   URLs with no matching file in public/
+ * - Warnings: template sections missing from a lesson body
+ *
+ * Reports one block per file. Runs before `astro build` and when the
+ * dev server starts (where errors are logged instead of thrown).
+ * Field-level problems (sections, empty vocabulary, IPA symbols) are
+ * reported by the schema in src/content/config.ts.
+ */
+
+import { access, readdir, readFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration, AstroIntegrationLogger } from 'astro';
+import { extractDialogueBlocks, parseDialogue } from '../lib/dialogue/parse';
+import {
+  findMissingSections,
+  findOrderIssues,
+  type LessonOrderEntry,
+} from '../lib/content/lesson-rules';
+import { DEFAULT_COURSE } from '../lib/courses';
+
+interface FileReport {
+  errors: string[];
+  warnings: string[];
+}
+
+/** Lesson files, skipping `_`-prefixed ones like Astro does (e.g. _template.md) */
+async function listLessonFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true, recursive: true });
+  return entries
+    .filter((entry) => entry.isFile() && /\.mdx?$/.test(entry.name))
+    .map((entry) => join(entry.parentPath, entry.name))
+    .filter(
+      (path) =>
+        !relative(directory, path)
+          .split(/[\\/]/)
+          .some((part) => part.startsWith('_')),
+    )
+    .sort();
+}
+
+/** Split a markdown file into its frontmatter block and body */
+function splitFrontmatter(source: string): { frontmatter: string; body: string } {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  return match
+    ? { frontmatter: match[1], body: source.slice(match[0].length) }
+    : { frontmatter: '', body: source };
+}
+
+/** ATX headings outside code fences */
+function extractHeadings(markdown: string): string[] {
+  const headings: string[] = [];
+  let inFence = false;
+  for (const line of markdown.split('\n')) {
+    if (line.trim().startsWith('```')) inFence = !inFence;
+    const match = !inFence && line.match(/^#{1,6}\s+(.*)$/);
+    if (match) headings.push(match[1].trim());
+  }
+  return headings;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  return access(path).then(
+    () => true,
+    () => false,
+  );
+}
+
+export async function validateLessons(
+  lessonsDirectory: string,
+  coursesDirectory: string,
+  publicDirectory: string,
+): Promise<Map<string, FileReport>> {
+  const reports = new Map<string, FileReport>();
+  // Each course numbers its lessons from 1
+  const ordersByCourse = new Map<string, LessonOrderEntry[]>();
+  const reportFor = (file: string) => {
+    if (!reports.has(file)) reports.set(file, { errors: [], warnings: [] });
+    return reports.get(file) as FileReport;
+  };
+
+  for (const path of await listLessonFiles(lessonsDirectory)) {
+    const file = relative(lessonsDirectory, path);
+    const { frontmatter, body } = splitFrontmatter(await readFile(path, 'utf-8'));
+
+    const course = frontmatter.match(/^course:\s*['"]?([^'"\s#]+)/m)?.[1] ?? DEFAULT_COURSE;
+    if (!(await fileExists(join(coursesDirectory, `${course}.md`)))) {
+      reportFor(file).errors.push(`course not found: src/content/courses/${course}.md`);
+    }
+
+    // Values that are not positive integers are reported by the schema
+    const order = Number(frontmatter.match(/^order:\s*['"]?([^'"\s#]+)/m)?.[1]);
+    if (Number.isInteger(order) && order > 0) {
+      ordersByCourse.set(course, [...(ordersByCourse.get(course) ?? []), { file, order }]);
+    }
+
+    const topLevelKeys = [...frontmatter.matchAll(/^(\w+):/gm)].map((match) => match[1]);
+    findMissingSections(extractHeadings(body), topLevelKeys).forEach((section) => {
+      reportFor(file).warnings.push(`missing the "${section}" section from _template.md`);
+    });
+
+    // `audio:` values on vocabulary items and dialogue lines, in frontmatter and
+    // ```dialogue blocks (syntax errors in blocks are reported by the markdown build)
+    const audioUrls = [
+      ...[...frontmatter.matchAll(/^\s*(?:-\s+)?audio:\s*['"]?([^'"\s#]+)/gm)].map((m) => m[1]),
+      ...extractDialogueBlocks(body).flatMap((block) => {
+        try {
+          return parseDialogue(block).flatMap((line) => (line.audio ? [line.audio] : []));
+        } catch {
+          return [];
+        }
+      }),
+    ];
+    for (const url of audioUrls) {
+      if (!(await fileExists(join(publicDirectory, url)))) {
+        reportFor(file).errors.push(`audio file not found: public${url}`);
+      }
+    }
+  }
+
+  ordersByCourse.forEach((orders) => {
+    findOrderIssues(orders).forEach(({ file, message }) => reportFor(file).errors.push(message));
+  });
+  return reports;
+}
+
+function logReports(reports: Map<string, FileReport>, logger: AstroIntegrationLogger): number {
+  let errorCount = 0;
+  reports.forEach(({ errors, warnings }, file) => {
+    errorCount += errors.length;
+    const lines = [
+      ...errors.map((message) => `  ✗ ${message}`),
+      ...warnings.map((message) => `  ⚠ ${message}`),
+    ];
+    const report = `${file}\n${lines.join('\n')}`;
+    if (errors.length > 0) logger.error(report);
+    else logger.warn(report);
+  });
+  return errorCount;
+}
+
+export default function lessonValidation(): AstroIntegration {
+  let lessonsDirectory = '';
+  let coursesDirectory = '';
+  let publicDirectory = '';
+
+  return {
+    name: 'lesson-validation',
+    hooks: {
+      'astro:config:setup': ({ config }) => {
+        lessonsDirectory = fileURLToPath(new URL('content/lessons/', config.srcDir));
+        coursesDirectory = fileURLToPath(new URL('content/courses/', config.srcDir));
+        publicDirectory = fileURLToPath(config.publicDir);
+      },
+      'astro:server:start': async ({ logger }) => {
+        logReports(
+          await validateLessons(lessonsDirectory, coursesDirectory, publicDirectory),
+          logger,
+        );
+      },
+      'astro:build:start': async ({ logger }) => {
+        const errorCount = logReports(
+          await validateLessons(lessonsDirectory, coursesDirectory, publicDirectory),
+          logger,
+        );
+        if (errorCount > 0) {
+          throw new Error(
+            `Lesson validation failed with ${errorCount} error(s); see the report above`,
+          );
+        }
+      },
+    },
+  };
+}
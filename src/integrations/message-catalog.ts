@@ -0,0 +1,40 @@
+/**
+ * Message Catalog Integration
+ *
+ * Checks the interface translations in src/lib/i18n/ against the English
+ * catalog: keys missing from a locale, keys English does not have, and
+ * `{placeholders}` that differ. Fails `astro build`; logged when the dev
+ * server starts.
+ */
+
+import type { AstroIntegration, AstroIntegrationLogger } from 'astro';
+import { findCatalogIssues } from '../lib/i18n';
+
+function logIssues(logger: AstroIntegrationLogger): number {
+  const issues = findCatalogIssues();
+  if (issues.length > 0) {
+    logger.error(
+      issues.map(({ locale, key, message }) => `  ✗ ${locale}: "${key}" ${message}`).join('\n'),
+    );
+  }
+  return issues.length;
+}
+
+export default function messageCatalog(): AstroIntegration {
+  return {
+    name: 'message-catalog',
+    hooks: {
+      'astro:server:start': ({ logger }) => {
+        logIssues(logger);
+      },
+      'astro:build:start': ({ logger }) => {
+        const issueCount = logIssues(logger);
+        if (issueCount > 0) {
+          throw new Error(
+            `Message catalog check failed with ${issueCount} issue(s); see the report above`,
+          );
+        }
+      },
+    },
+  };
+}
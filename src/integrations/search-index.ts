@@ -0,0 +1,55 @@
+/**
+ * Search Index Integration
+ *
+ * Builds the site-wide search index once at build time and bundles it as
+ * the `virtual:search-index` module, which the authenticated /api/search
+ * endpoint serves. The index is not a static file on purpose: prerendered
+ * files are served without passing through the auth middleware.
+ *
+ * In dev the module is rebuilt whenever content or a static page changes.
+ */
+
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration } from 'astro';
+import type { Plugin } from 'vite';
+import { buildSearchIndex } from '../lib/search/index-builder';
+import { readSearchSources } from '../lib/search/content-source';
+
+const MODULE_ID = 'virtual:search-index';
+const RESOLVED_MODULE_ID = `\0${MODULE_ID}`;
+
+function searchIndexPlugin(srcDirectory: string): Plugin {
+  const watched = [`${srcDirectory}content/`, `${srcDirectory}pages/`];
+
+  return {
+    name: 'search-index',
+    resolveId(id) {
+      return id === MODULE_ID ? RESOLVED_MODULE_ID : undefined;
+    },
+    async load(id) {
+      if (id !== RESOLVED_MODULE_ID) return undefined;
+      const index = buildSearchIndex(await readSearchSources(srcDirectory));
+      return `export default ${JSON.stringify(index)};`;
+    },
+    configureServer(server) {
+      server.watcher.on('all', (_event, path) => {
+        if (!watched.some((directory) => path.startsWith(directory))) return;
+        const module = server.moduleGraph.getModuleById(RESOLVED_MODULE_ID);
+        if (module) server.reloadModule(module);
+      });
+    },
+  };
+}
+
+export default function searchIndex(): AstroIntegration {
+  return {
+    name: 'search-index',
+    hooks: {
+      'astro:config:setup': ({ config, updateConfig }) => {
+        updateConfig({
+          vite: { plugins: [searchIndexPlugin(fileURLToPath(config.srcDir))] },
+        });
+      },
+    },
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Idiom and Cultural Note Helpers
+ *
+ * Shared vocabulary for the `idioms` and `culturalNotes` collections:
+ * - Register values (how formal an expression is); their labels are
+ *   `register.*` messages in src/lib/i18n/
+ * - Stable anchor IDs so lessons can deep-link into the appendices
+ */
+
+export const REGISTERS = ['formal', 'neutral', 'informal', 'slang', 'vulgar'] as const;
+export type Register = (typeof REGISTERS)[number];
+
+/** Default region when an entry does not name one */
+export const DEFAULT_REGION = 'All of Mexico';
+
+export function idiomAnchorId(id: string): string {
+  return `idiom-${id}`;
+}
+
+export function idiomHref(id: string): string {
+  return `/appendices/idioms#${idiomAnchorId(id)}`;
+}
+
+export function culturalNoteAnchorId(id: string): string {
+  return `note-${id}`;
+}
+
+export function culturalNoteHref(id: string): string {
+  return `/appendices/cultural-notes#${culturalNoteAnchorId(id)}`;
+}
+
+/** What a lesson page shows for a related idiom */
+export interface IdiomSummary {
+  id: string;
+  expression: string;
+  meaning: string;
+  literal?: string;
+  register: Register;
+}
+
+/** What a lesson page shows for a related cultural note */
+export interface CulturalNoteSummary {
+  id: string;
+  title: string;
+  summary: string;
+}
+
+/**
+ * Whether a `lessons` reference list includes a lesson. References to a
+ * content collection are typed with `slug`, but the glob-emulated legacy
+ * collections resolve them with `id` at runtime, so accept either.
+ */
+export function referencesLesson(
+  refs: ReadonlyArray<{ slug: string } | { id: string }> = [],
+  lessonSlug: string,
+): boolean {
+  return refs.some((ref) => ('slug' in ref ? ref.slug : ref.id) === lessonSlug);
+}
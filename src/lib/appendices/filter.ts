@@ -0,0 +1,60 @@
+/**
+ * Listing Filter
+ *
+ * Client-side filtering for the idioms and cultural notes appendices.
+ * Each `[data-listing]` root contains:
+ * - A search box (`[data-filter-search]`), accent-insensitive
+ * - Selects (`[data-filter-field="<name>"]`) matching `data-<name>` on items
+ * - Items (`[data-listing-item]`) with their searchable text in `data-search-text`
+ */
+
+import { plural, t } from '../i18n/client';
+import { normalizeForSearch } from '../search/normalize';
+
+// HTMLSelectElement conflicts with the Workers runtime types; only these members are used
+type SelectElement = HTMLElement & { value: string };
+
+function applyFilters(root: HTMLElement): void {
+  const search = root.querySelector('[data-filter-search]') as HTMLInputElement | null;
+  const words = normalizeForSearch(search?.value ?? '')
+    .split(/\s+/)
+    .filter(Boolean);
+  const fields = Array.from(root.querySelectorAll<HTMLElement>('[data-filter-field]')).map(
+    (select) => ({
+      name: select.dataset.filterField ?? '',
+      value: (select as SelectElement).value,
+    }),
+  );
+
+  let visible = 0;
+  root.querySelectorAll<HTMLElement>('[data-listing-item]').forEach((item) => {
+    const text = item.dataset.searchText ?? '';
+    const matches =
+      words.every((word) => text.includes(word)) &&
+      fields.every(({ name, value }) => !value || item.dataset[name] === value);
+    item.hidden = !matches;
+    if (matches) visible++;
+  });
+
+  const count = root.querySelector('[data-filter-count]');
+  if (count) {
+    const total = root.querySelectorAll('[data-listing-item]').length;
+    count.textContent =
+      visible === total
+        ? plural('listing.count', total)
+        : t('listing.countFiltered', { visible, total });
+  }
+  const empty = root.querySelector('[data-filter-empty]') as HTMLElement | null;
+  if (empty) empty.hidden = visible > 0;
+}
+
+export function initListingFilters(): void {
+  document.querySelectorAll<HTMLElement>('[data-listing]').forEach((root) => {
+    if (root.dataset.initialized) return;
+    root.dataset.initialized = 'true';
+
+    root.addEventListener('input', () => applyFilters(root));
+    root.addEventListener('change', () => applyFilters(root));
+    applyFilters(root);
+  });
+}
@@ -0,0 +1,9 @@
+/**
+ * Audio Icons
+ *
+ * SVG path of the speaker icon, shared by PronounceButton.astro and
+ * markup generated outside components (dialogue blocks).
+ */
+
+export const SPEAKER_ICON_PATH =
+  'M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M5 9h3l5-4v14l-5-4H5a1 1 0 01-1-1v-4a1 1 0 011-1z';
@@ -0,0 +1,9 @@
+/**
+ * Audio Paths
+ *
+ * Recordings live in public/audio/ and are referenced from lesson
+ * frontmatter by their URL, e.g. `/audio/lesson-01/hola.mp3`. The
+ * lesson validation integration checks that every referenced file exists.
+ */
+
+export const AUDIO_URL_PATTERN = /^\/audio\/[\w./-]+\.(mp3|m4a|ogg|opus|wav|webm)$/;
@@ -0,0 +1,119 @@
+/**
+ * Pronunciation Playback
+ *
+ * Handles every `[data-pronounce]` button on the page:
+ * - Plays the recording in `data-audio-src` when there is one
+ * - Otherwise (or if the file fails to load) speaks `data-speak-text`
+ *   with SpeechSynthesis, preferring a Mexican Spanish voice
+ * - "Slow" toggles (`[data-pronounce-slow]`) apply to all buttons and
+ *   are remembered with the other preferences (lib/preferences)
+ */
+
+import { getPreference, onPreferenceChange, setPreference } from '../preferences';
+
+const SLOW_AUDIO_RATE = 0.7;
+const SLOW_SPEECH_RATE = 0.6;
+/** Preferred voices, best first */
+const VOICE_LANGUAGES = ['es-MX', 'es-US', 'es-419', 'es'];
+
+let currentAudio: HTMLAudioElement | null = null;
+let listening = false;
+
+function isSlow(): boolean {
+  return getPreference('slowPronunciation');
+}
+
+function pickVoice(): SpeechSynthesisVoice | undefined {
+  const voices = speechSynthesis.getVoices();
+  for (const language of VOICE_LANGUAGES) {
+    const voice = voices.find(
+      (candidate) =>
+        candidate.lang.replace('_', '-') === language ||
+        (language === 'es' && candidate.lang.startsWith('es')),
+    );
+    if (voice) return voice;
+  }
+  return undefined;
+}
+
+function speak(text: string, button: HTMLElement): void {
+  if (!('speechSynthesis' in window) || !text) return;
+
+  speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'es-MX';
+  const voice = pickVoice();
+  if (voice) utterance.voice = voice;
+  utterance.rate = isSlow() ? SLOW_SPEECH_RATE : 1;
+
+  button.dataset.playing = 'true';
+  utterance.onend = utterance.onerror = () => delete button.dataset.playing;
+  speechSynthesis.speak(utterance);
+}
+
+function play(button: HTMLElement): void {
+  const source = button.dataset.audioSrc;
+  const text = button.dataset.speakText ?? '';
+
+  currentAudio?.pause();
+  if ('speechSynthesis' in window) speechSynthesis.cancel();
+  document.querySelectorAll<HTMLElement>('[data-pronounce][data-playing]').forEach((other) => {
+    delete other.dataset.playing;
+  });
+
+  if (!source) {
+    speak(text, button);
+    return;
+  }
+
+  const audio = new Audio(source);
+  audio.playbackRate = isSlow() ? SLOW_AUDIO_RATE : 1;
+  // Keep the pitch natural when slowed down
+  audio.preservesPitch = true;
+  currentAudio = audio;
+
+  button.dataset.playing = 'true';
+  audio.addEventListener('ended', () => delete button.dataset.playing);
+  audio.addEventListener('error', () => {
+    delete button.dataset.playing;
+    speak(text, button);
+  });
+  audio.play().catch(() => speak(text, button));
+}
+
+function syncSlowToggles(): void {
+  const slow = isSlow();
+  document.querySelectorAll<HTMLInputElement>('[data-pronounce-slow]').forEach((toggle) => {
+    toggle.checked = slow;
+  });
+}
+
+export function initPronunciation(): void {
+  const canSpeak = 'speechSynthesis' in window;
+
+  // Buttons with nothing to play would do nothing; hide them
+  document.querySelectorAll<HTMLElement>('[data-pronounce]').forEach((button) => {
+    button.hidden = !button.dataset.audioSrc && !canSpeak;
+  });
+  syncSlowToggles();
+
+  // Voices load asynchronously in some browsers
+  if (canSpeak) speechSynthesis.getVoices();
+
+  if (listening) return;
+  listening = true;
+
+  // Also follows changes made in other tabs or on other devices
+  onPreferenceChange(['slowPronunciation'], syncSlowToggles);
+
+  document.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLElement>('[data-pronounce]');
+    if (button) play(button);
+  });
+
+  document.addEventListener('change', (event) => {
+    const toggle = event.target as HTMLInputElement;
+    if (!toggle.matches('[data-pronounce-slow]')) return;
+    setPreference('slowPronunciation', toggle.checked);
+  });
+}
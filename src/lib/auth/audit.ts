@@ -0,0 +1,75 @@
+/**
+ * Audit Log
+ *
+ * Structured record of sign-in activity, kept in KV for 90 days.
+ * Keys embed an inverted timestamp (`audit:<inverted>:<random>`) so a
+ * KV list, which is sorted by key, returns the newest events first. The
+ * event itself is stored as key metadata, so one list call reads a page.
+ */
+
+import { randomToken } from './crypto';
+
+export type AuditEventType =
+  | 'login.success'
+  | 'login.failure'
+  | 'login.locked'
+  | 'logout'
+  | 'logout.all'
+  | 'setup.success'
+  | 'setup.failure';
+
+export interface AuditEvent {
+  type: AuditEventType;
+  /** ISO timestamp */
+  at: string;
+  ip?: string;
+  /** Email as entered (failures) or of the signed-in user */
+  email?: string;
+  userId?: string;
+}
+
+export interface AuditPage {
+  events: AuditEvent[];
+  /** Pass back to `listAuditEvents` for older events */
+  cursor?: string;
+}
+
+const AUDIT_PREFIX = 'audit:';
+const AUDIT_TTL = 60 * 60 * 24 * 90; // 90 days
+// Larger than any millisecond timestamp we will see; keeps keys fixed-width
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+export async function recordAuditEvent(
+  kv: KVNamespace,
+  event: Omit<AuditEvent, 'at'>,
+): Promise<void> {
+  const now = Date.now();
+  const inverted = String(MAX_TIMESTAMP - now).padStart(13, '0');
+  const entry: AuditEvent = { ...event, at: new Date(now).toISOString() };
+
+  try {
+    await kv.put(`${AUDIT_PREFIX}${inverted}:${randomToken(6)}`, '', {
+      metadata: entry,
+      expirationTtl: AUDIT_TTL,
+    });
+  } catch (error) {
+    // Never block sign-in because the log could not be written
+    console.error('Audit log write failed:', error);
+  }
+}
+
+export async function listAuditEvents(
+  kv: KVNamespace,
+  options: { limit?: number; cursor?: string } = {},
+): Promise<AuditPage> {
+  const page = await kv.list<AuditEvent>({
+    prefix: AUDIT_PREFIX,
+    limit: options.limit ?? 50,
+    cursor: options.cursor,
+  });
+
+  return {
+    events: page.keys.flatMap((key) => (key.metadata ? [key.metadata] : [])),
+    cursor: page.list_complete ? undefined : page.cursor,
+  };
+}
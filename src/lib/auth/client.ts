@@ -0,0 +1,60 @@
+/**
+ * Signed-In User on the Client
+ *
+ * Learner data kept on the device (lesson progress, the flashcard
+ * schedule) belongs to the signed-in user, not to the device:
+ * - It is stored under `<name>:<userId>`, the user id coming from
+ *   `<html data-user-id>` (set by BaseLayout), so a shared computer never
+ *   merges one student's data into the next account
+ * - Logging out (the /logout link or form) removes it, like the service
+ *   worker drops its saved pages (public/sw.js)
+ */
+
+import { deviceStorage } from '../storage';
+
+/** Every per-user document kept on the device, by storage name */
+export const USER_STORAGE_NAMES = {
+  progress: 'lesson-progress',
+  review: 'review-state',
+} as const;
+
+const LOGOUT_PATH = '/logout';
+
+let logoutCleanupRegistered = false;
+
+export function currentUserId(): string | null {
+  return document.documentElement.dataset.userId || null;
+}
+
+/** Storage key of a per-user document for the signed-in user */
+export function userStorageKey(name: string): string {
+  const userId = currentUserId();
+  return userId ? `${name}:${userId}` : name;
+}
+
+/** Remove the signed-in user's documents, and unscoped ones from before keys had a user */
+export function clearUserStorage(): void {
+  Object.values(USER_STORAGE_NAMES).forEach((name) => {
+    deviceStorage.remove(userStorageKey(name));
+    deviceStorage.remove(name);
+  });
+}
+
+function isLogoutUrl(url: string): boolean {
+  return new URL(url, window.location.href).pathname === LOGOUT_PATH;
+}
+
+/** Clear the user's documents when they log out (once per page load) */
+export function initLogoutCleanup(): void {
+  if (logoutCleanupRegistered) return;
+  logoutCleanupRegistered = true;
+
+  document.addEventListener('click', (e) => {
+    const link = (e.target as Element | null)?.closest?.('a[href]');
+    if (link instanceof HTMLAnchorElement && isLogoutUrl(link.href)) clearUserStorage();
+  });
+  document.addEventListener('submit', (e) => {
+    const form = e.target;
+    if (form instanceof HTMLFormElement && isLogoutUrl(form.action)) clearUserStorage();
+  });
+}
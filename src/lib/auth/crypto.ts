@@ -0,0 +1,121 @@
+/**
+ * Auth Crypto Helpers
+ *
+ * WebCrypto-only primitives (no Node APIs, runs on Workers):
+ * - Random opaque tokens for sessions and invites
+ * - HMAC-SHA256 signatures for cookie values
+ * - PBKDF2-SHA256 password hashing with a per-user salt
+ * - Constant-time string comparison
+ */
+
+// Workers cap PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+const HASH_SCHEME = 'pbkdf2-sha256';
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/** Random URL-safe token (256 bits by default) */
+export function randomToken(byteLength = 32): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/** Compare two strings without short-circuiting on the first difference */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  // Still walk the longer input so the length check does not return early
+  const length = Math.max(aBytes.length, bBytes.length);
+  let difference = aBytes.length ^ bBytes.length;
+
+  for (let i = 0; i < length; i++) {
+    difference |= (aBytes[i] ?? 0) ^ (bBytes[i] ?? 0);
+  }
+
+  return difference === 0;
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+/** Append an HMAC signature: `<value>.<signature>` */
+export async function signValue(value: string, secret: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(value));
+  return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** Return the original value if the signature is valid, otherwise null */
+export async function unsignValue(signed: string, secret: string): Promise<string | null> {
+  const separator = signed.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const value = signed.slice(0, separator);
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    signature = fromBase64Url(signed.slice(separator + 1));
+  } catch {
+    return null;
+  }
+
+  // subtle.verify compares in constant time
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await hmacKey(secret),
+    signature,
+    encoder.encode(value),
+  );
+  return valid ? value : null;
+}
+
+async function deriveKey(
+  password: string,
+  salt: BufferSource,
+  iterations: number,
+): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, [
+    'deriveBits',
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BITS,
+  );
+  return toBase64Url(new Uint8Array(bits));
+}
+
+/** Hash a password as `pbkdf2-sha256$<iterations>$<salt>$<hash>` */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  return [HASH_SCHEME, PBKDF2_ITERATIONS, toBase64Url(salt), hash].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== HASH_SCHEME || !iterations || !salt || !hash) return false;
+
+  const candidate = await deriveKey(password, fromBase64Url(salt), Number(iterations));
+  return timingSafeEqual(candidate, hash);
+}
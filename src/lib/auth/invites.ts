@@ -0,0 +1,65 @@
+/**
+ * Invites
+ *
+ * Single-use signup links stored as `invite:<token>` in KV. Unused
+ * invites expire on their own.
+ */
+
+import { randomToken } from './crypto';
+import type { Invite, Role } from './types';
+import { normalizeEmail } from './users';
+
+const INVITE_PREFIX = 'invite:';
+const INVITE_TTL = 60 * 60 * 24 * 7; // 7 days
+
+export interface PendingInvite extends Invite {
+  token: string;
+}
+
+export function inviteHref(token: string): string {
+  return `/invite/${token}`;
+}
+
+export async function createInvite(
+  kv: KVNamespace,
+  input: { email: string; role: Role; invitedBy: string },
+): Promise<string> {
+  const token = randomToken();
+  const invite: Invite = {
+    email: normalizeEmail(input.email),
+    role: input.role,
+    invitedBy: input.invitedBy,
+    createdAt: new Date().toISOString(),
+  };
+  await kv.put(`${INVITE_PREFIX}${token}`, JSON.stringify(invite), { expirationTtl: INVITE_TTL });
+  return token;
+}
+
+export async function getInvite(kv: KVNamespace, token: string): Promise<Invite | null> {
+  return kv.get<Invite>(`${INVITE_PREFIX}${token}`, 'json');
+}
+
+export async function listInvites(kv: KVNamespace): Promise<PendingInvite[]> {
+  const invites: PendingInvite[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix: INVITE_PREFIX, cursor });
+    const records = await Promise.all(
+      page.keys.map(async (key) => ({
+        token: key.name.slice(INVITE_PREFIX.length),
+        invite: await kv.get<Invite>(key.name, 'json'),
+      })),
+    );
+    records.forEach(({ token, invite }) => {
+      if (invite) invites.push({ ...invite, token });
+    });
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return invites.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function deleteInvite(kv: KVNamespace, token: string): Promise<void> {
+  await kv.delete(`${INVITE_PREFIX}${token}`);
+}
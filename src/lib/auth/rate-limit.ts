@@ -0,0 +1,132 @@
+/**
+ * Login Rate Limiting
+ *
+ * Failed attempts are counted per client IP and per account in KV
+ * (`ratelimit:<scope>:<id>`). After a few free attempts each further
+ * failure locks the key out for twice as long as the previous one.
+ */
+
+import type { Translator } from '../i18n';
+
+export interface RateLimitPolicy {
+  scope: string;
+  /** Failures allowed before lockouts start */
+  freeAttempts: number;
+  /** Lockout after the first failure past the free attempts (seconds) */
+  baseLockout: number;
+  maxLockout: number;
+}
+
+interface FailureRecord {
+  failures: number;
+  /** Epoch milliseconds; 0 when not locked */
+  lockedUntil: number;
+}
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  /** Seconds until the next attempt is accepted (0 when allowed) */
+  retryAfter: number;
+}
+
+const RATE_LIMIT_PREFIX = 'ratelimit:';
+// Failure counts are forgotten a day after the last failure
+const FAILURE_WINDOW = 60 * 60 * 24;
+
+/** Per account: protects a single password from guessing */
+export const ACCOUNT_POLICY: RateLimitPolicy = {
+  scope: 'account',
+  freeAttempts: 5,
+  baseLockout: 30,
+  maxLockout: 60 * 60,
+};
+
+/** Per IP: higher allowance, since a classroom can share one address */
+export const IP_POLICY: RateLimitPolicy = {
+  scope: 'ip',
+  freeAttempts: 20,
+  baseLockout: 60,
+  maxLockout: 60 * 60,
+};
+
+/** Per IP on /setup: the access code is a single shared secret */
+export const SETUP_POLICY: RateLimitPolicy = {
+  scope: 'setup',
+  freeAttempts: 5,
+  baseLockout: 60,
+  maxLockout: 60 * 60 * 24,
+};
+
+/** Client IP as seen by Cloudflare, falling back to the adapter's address */
+export function getClientIp(context: { request: Request; clientAddress: string }): string {
+  const header = context.request.headers.get('cf-connecting-ip');
+  if (header) return header;
+  try {
+    return context.clientAddress;
+  } catch {
+    // clientAddress throws when the platform does not provide it
+    return 'unknown';
+  }
+}
+
+function rateLimitKey(policy: RateLimitPolicy, id: string): string {
+  return `${RATE_LIMIT_PREFIX}${policy.scope}:${id}`;
+}
+
+/** Lockout length for the nth failure: 0, then base, 2×base, 4×base… capped */
+export function lockoutDuration(policy: RateLimitPolicy, failures: number): number {
+  const excess = failures - policy.freeAttempts;
+  if (excess <= 0) return 0;
+  return Math.min(policy.baseLockout * 2 ** (excess - 1), policy.maxLockout);
+}
+
+export async function checkRateLimit(
+  kv: KVNamespace,
+  policy: RateLimitPolicy,
+  id: string,
+): Promise<RateLimitStatus> {
+  const record = await kv.get<FailureRecord>(rateLimitKey(policy, id), 'json');
+  const remaining = record ? Math.ceil((record.lockedUntil - Date.now()) / 1000) : 0;
+  return remaining > 0
+    ? { allowed: false, retryAfter: remaining }
+    : { allowed: true, retryAfter: 0 };
+}
+
+export async function recordFailure(
+  kv: KVNamespace,
+  policy: RateLimitPolicy,
+  id: string,
+): Promise<RateLimitStatus> {
+  const key = rateLimitKey(policy, id);
+  const previous = await kv.get<FailureRecord>(key, 'json');
+  const failures = (previous?.failures ?? 0) + 1;
+  const lockout = lockoutDuration(policy, failures);
+
+  const record: FailureRecord = {
+    failures,
+    lockedUntil: lockout > 0 ? Date.now() + lockout * 1000 : 0,
+  };
+  await kv.put(key, JSON.stringify(record), { expirationTtl: FAILURE_WINDOW + lockout });
+
+  return lockout > 0 ? { allowed: false, retryAfter: lockout } : { allowed: true, retryAfter: 0 };
+}
+
+export async function clearFailures(
+  kv: KVNamespace,
+  policy: RateLimitPolicy,
+  id: string,
+): Promise<void> {
+  await kv.delete(rateLimitKey(policy, id));
+}
+
+/** Combine several limits: blocked if any is, for the longest wait */
+export function mergeStatuses(statuses: RateLimitStatus[]): RateLimitStatus {
+  const retryAfter = Math.max(0, ...statuses.map((status) => status.retryAfter));
+  return { allowed: statuses.every((status) => status.allowed), retryAfter };
+}
+
+/** "30 seconds", "2 minutes", in the translator's locale */
+export function formatRetryAfter(seconds: number, { plural }: Translator): string {
+  if (seconds < 60) return plural('time.seconds', seconds);
+  return plural('time.minutes', Math.ceil(seconds / 60));
+}
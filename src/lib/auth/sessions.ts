@@ -0,0 +1,143 @@
+/**
+ * Sessions
+ *
+ * Server-side sessions stored in KV as `session:<userId>:<token>`:
+ * - The cookie holds the session ID signed with SESSION_SECRET, never
+ *   a secret or user data
+ * - Idle timeout (no requests for a week) and absolute timeout (30 days
+ *   after sign-in), whichever comes first
+ * - Keyed by user so every session of an account can be ended at once
+ */
+
+import type { AstroCookies } from 'astro';
+import { randomToken, signValue, unsignValue } from './crypto';
+import type { Session, User } from './types';
+import { getUser } from './users';
+
+const SESSION_PREFIX = 'session:';
+
+export const SESSION_COOKIE = 'auth_session';
+export const SESSION_IDLE_TIMEOUT = 60 * 60 * 24 * 7; // 7 days
+export const SESSION_ABSOLUTE_TIMEOUT = 60 * 60 * 24 * 30; // 30 days
+
+// Set and cleared with the same attributes, or browsers keep the old cookie
+const SESSION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: true,
+  sameSite: 'lax',
+  path: '/',
+} as const;
+
+// Only write lastSeenAt back this often, to keep KV writes down
+const TOUCH_INTERVAL = 60 * 60; // 1 hour
+// Smallest expirationTtl KV accepts
+const MIN_KV_TTL = 60;
+
+export interface SessionConfig {
+  kv: KVNamespace;
+  secret: string;
+}
+
+/** Read the KV binding and signing secret from the Cloudflare runtime */
+export function getSessionConfig(locals: App.Locals): SessionConfig | null {
+  const env = locals.runtime?.env;
+  if (!env?.SESSION || !env.SESSION_SECRET) return null;
+  return { kv: env.SESSION, secret: env.SESSION_SECRET };
+}
+
+function sessionKey(sessionId: string): string {
+  return `${SESSION_PREFIX}${sessionId}`;
+}
+
+/** Seconds until the session expires, or 0 if it already has */
+function remainingLifetime(session: Session, now: number): number {
+  const idleDeadline = session.lastSeenAt + SESSION_IDLE_TIMEOUT * 1000;
+  const absoluteDeadline = session.createdAt + SESSION_ABSOLUTE_TIMEOUT * 1000;
+  return Math.max(0, Math.floor((Math.min(idleDeadline, absoluteDeadline) - now) / 1000));
+}
+
+async function saveSession(kv: KVNamespace, sessionId: string, session: Session): Promise<void> {
+  const ttl = remainingLifetime(session, Date.now());
+  await kv.put(sessionKey(sessionId), JSON.stringify(session), {
+    expirationTtl: Math.max(ttl, MIN_KV_TTL),
+  });
+}
+
+async function readSessionId(config: SessionConfig, cookies: AstroCookies): Promise<string | null> {
+  const cookieValue = cookies.get(SESSION_COOKIE)?.value;
+  return cookieValue ? unsignValue(cookieValue, config.secret) : null;
+}
+
+/** Create a session for the user and set the signed cookie */
+export async function startSession(
+  config: SessionConfig,
+  cookies: AstroCookies,
+  userId: string,
+): Promise<void> {
+  const sessionId = `${userId}:${randomToken()}`;
+  const now = Date.now();
+  await saveSession(config.kv, sessionId, { userId, createdAt: now, lastSeenAt: now });
+
+  cookies.set(SESSION_COOKIE, await signValue(sessionId, config.secret), {
+    ...SESSION_COOKIE_OPTIONS,
+    maxAge: SESSION_ABSOLUTE_TIMEOUT,
+  });
+}
+
+/**
+ * Resolve the session cookie to its user. Returns null for a missing,
+ * forged or expired session, or one whose account was deleted.
+ */
+export async function getSessionUser(
+  config: SessionConfig,
+  cookies: AstroCookies,
+): Promise<User | null> {
+  const sessionId = await readSessionId(config, cookies);
+  if (!sessionId) return null;
+
+  const session = await config.kv.get<Session>(sessionKey(sessionId), 'json');
+  if (!session) return null;
+
+  const now = Date.now();
+  // KV expiry is lazy (up to a minute late), so check the deadlines here too
+  if (remainingLifetime(session, now) === 0) {
+    await config.kv.delete(sessionKey(sessionId));
+    return null;
+  }
+
+  const user = await getUser(config.kv, session.userId);
+  if (!user) {
+    await config.kv.delete(sessionKey(sessionId));
+    return null;
+  }
+
+  if (now - session.lastSeenAt > TOUCH_INTERVAL * 1000) {
+    await saveSession(config.kv, sessionId, { ...session, lastSeenAt: now });
+  }
+
+  return user;
+}
+
+/** End the current session server-side and clear the cookie */
+export async function endSession(config: SessionConfig, cookies: AstroCookies): Promise<void> {
+  const sessionId = await readSessionId(config, cookies);
+  if (sessionId) {
+    await config.kv.delete(sessionKey(sessionId));
+  }
+  clearSessionCookie(cookies);
+}
+
+/** End every session of a user ("log out all devices", account revocation) */
+export async function endAllSessions(kv: KVNamespace, userId: string): Promise<void> {
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix: `${SESSION_PREFIX}${userId}:`, cursor });
+    await Promise.all(page.keys.map((key) => kv.delete(key.name)));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+}
+
+export function clearSessionCookie(cookies: AstroCookies): void {
+  cookies.delete(SESSION_COOKIE, SESSION_COOKIE_OPTIONS);
+}
@@ -0,0 +1,36 @@
+/**
+ * Auth Types
+ *
+ * Records stored in the SESSION KV namespace
+ */
+
+export type Role = 'admin' | 'student';
+
+export interface User {
+  id: string;
+  /** Lowercased, used to log in */
+  email: string;
+  name: string;
+  role: Role;
+  passwordHash: string;
+  createdAt: string;
+}
+
+/** User as exposed to pages via `Astro.locals.user` */
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+export interface Session {
+  userId: string;
+  /** Epoch milliseconds; the absolute timeout counts from here */
+  createdAt: number;
+  /** Epoch milliseconds; the idle timeout counts from here */
+  lastSeenAt: number;
+}
+
+export interface Invite {
+  email: string;
+  role: Role;
+  /** Id of the admin who sent the invite */
+  invitedBy: string;
+  createdAt: string;
+}
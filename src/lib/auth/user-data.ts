@@ -0,0 +1,57 @@
+/**
+ * Per-User Data
+ *
+ * JSON documents stored per account in KV as `userdata:<namespace>:<userId>`
+ * (e.g. the flashcard review schedule). Reads and writes go through the
+ * /api routes, which take the user from the session; the class dashboard
+ * (/admin) reads every student's. Revoking an account deletes all of them.
+ */
+
+const USER_DATA_PREFIX = 'userdata:';
+
+export const USER_DATA_NAMESPACES = {
+  /** Lesson progress and drill scores (lib/progress/store.ts) */
+  progress: 'progress',
+  /** Flashcard schedule (lib/review/decks.ts) */
+  review: 'review',
+  /** Days with flashcard reviews (lib/review/streaks.ts) */
+  reviewDays: 'review-days',
+  /** Synced display and study preferences (lib/preferences/schema.ts) */
+  preferences: 'preferences',
+} as const;
+
+function userDataKey(namespace: string, userId: string): string {
+  return `${USER_DATA_PREFIX}${namespace}:${userId}`;
+}
+
+export async function getUserData<T>(
+  kv: KVNamespace,
+  namespace: string,
+  userId: string,
+): Promise<T | null> {
+  return kv.get<T>(userDataKey(namespace, userId), 'json');
+}
+
+export async function putUserData<T>(
+  kv: KVNamespace,
+  namespace: string,
+  userId: string,
+  data: T,
+): Promise<void> {
+  await kv.put(userDataKey(namespace, userId), JSON.stringify(data));
+}
+
+export async function deleteUserData(
+  kv: KVNamespace,
+  namespace: string,
+  userId: string,
+): Promise<void> {
+  await kv.delete(userDataKey(namespace, userId));
+}
+
+/** Delete every namespace's document of a user, e.g. when the account is revoked */
+export async function deleteAllUserData(kv: KVNamespace, userId: string): Promise<void> {
+  await Promise.all(
+    Object.values(USER_DATA_NAMESPACES).map((namespace) => deleteUserData(kv, namespace, userId)),
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * User Accounts
+ *
+ * KV layout:
+ * - `user:<id>` → User record
+ * - `user-email:<email>` → user id (login lookup)
+ * - `admin-exists` → set once an admin account is created, so the login
+ *   page can tell a fresh install without listing every user. Never
+ *   removed: admins cannot revoke themselves, so one always remains
+ */
+
+import type { Translator } from '../i18n';
+import { hashPassword, verifyPassword } from './crypto';
+import type { PublicUser, Role, User } from './types';
+
+const USER_PREFIX = 'user:';
+const EMAIL_PREFIX = 'user-email:';
+const ADMIN_EXISTS_KEY = 'admin-exists';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Verified against when the email is unknown, so both paths take as long.
+// Created lazily: Workers forbid random values in global scope.
+let dummyPasswordHash: Promise<string> | null = null;
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** Basic shape check; the invite link itself proves the address works */
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+/** An error message in the translator's locale, or null if the new password is acceptable */
+export function validateNewPassword(
+  password: string,
+  confirmation: string,
+  { t }: Translator,
+): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return t('signup.passwordTooShort', { min: MIN_PASSWORD_LENGTH });
+  }
+  if (password !== confirmation) {
+    return t('signup.passwordMismatch');
+  }
+  return null;
+}
+
+export function toPublicUser(user: User): PublicUser {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+export async function getUser(kv: KVNamespace, id: string): Promise<User | null> {
+  return kv.get<User>(`${USER_PREFIX}${id}`, 'json');
+}
+
+export async function getUserByEmail(kv: KVNamespace, email: string): Promise<User | null> {
+  const id = await kv.get(`${EMAIL_PREFIX}${normalizeEmail(email)}`);
+  return id ? getUser(kv, id) : null;
+}
+
+export async function listUsers(kv: KVNamespace): Promise<User[]> {
+  const users: User[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix: USER_PREFIX, cursor });
+    const records = await Promise.all(page.keys.map((key) => kv.get<User>(key.name, 'json')));
+    records.forEach((user) => {
+      if (user) users.push(user);
+    });
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return users.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function hasAdmin(kv: KVNamespace): Promise<boolean> {
+  if (await kv.get(ADMIN_EXISTS_KEY)) return true;
+
+  // Admins created before the marker existed: look once, then remember
+  const users = await listUsers(kv);
+  if (!users.some((user) => user.role === 'admin')) return false;
+  await kv.put(ADMIN_EXISTS_KEY, '1');
+  return true;
+}
+
+export async function createUser(
+  kv: KVNamespace,
+  input: { email: string; name: string; role: Role; password: string },
+): Promise<User> {
+  const email = normalizeEmail(input.email);
+  if (await kv.get(`${EMAIL_PREFIX}${email}`)) {
+    throw new Error(`An account for ${email} already exists`);
+  }
+
+  const user: User = {
+    id: crypto.randomUUID(),
+    email,
+    name: input.name.trim(),
+    role: input.role,
+    passwordHash: await hashPassword(input.password),
+    createdAt: new Date().toISOString(),
+  };
+
+  await kv.put(`${USER_PREFIX}${user.id}`, JSON.stringify(user));
+  await kv.put(`${EMAIL_PREFIX}${email}`, user.id);
+  if (user.role === 'admin') await kv.put(ADMIN_EXISTS_KEY, '1');
+  return user;
+}
+
+/** Look up a user by email and check the password; null on any mismatch */
+export async function authenticate(
+  kv: KVNamespace,
+  email: string,
+  password: string,
+): Promise<User | null> {
+  const user = await getUserByEmail(kv, email);
+  if (!user) {
+    dummyPasswordHash ??= hashPassword('dummy-password');
+    await verifyPassword(password, await dummyPasswordHash);
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
+
+/**
+ * Remove an account. Any session that survives stops working anyway,
+ * because every request re-reads the user record.
+ */
+export async function deleteUser(kv: KVNamespace, user: User): Promise<void> {
+  await kv.delete(`${EMAIL_PREFIX}${user.email}`);
+  await kv.delete(`${USER_PREFIX}${user.id}`);
+}
@@ -0,0 +1,85 @@
+/**
+ * Lesson Content Rules
+ *
+ * Shared by the content schema (per-file checks, src/content/config.ts)
+ * and the lesson validation integration (checks across files,
+ * src/integrations/lesson-validation.ts):
+ * - Allowed `section` values
+ * - `order` must run 1, 2, 3… with no duplicates or gaps, since
+ *   previous/next navigation follows it
+ * - Sections every lesson body is expected to have (from _template.md)
+ */
+
+export const LESSON_SECTIONS = ['Foundation', 'Intermediate', 'Advanced'] as const;
+export type LessonSection = (typeof LESSON_SECTIONS)[number];
+
+/** Body sections from the template; missing ones are reported as warnings */
+export const TEMPLATE_SECTIONS = ['Text', 'Grammar Notes', 'Practice Drills'] as const;
+
+export interface LessonOrderEntry {
+  file: string;
+  order: number;
+}
+
+export interface OrderIssue {
+  file: string;
+  message: string;
+}
+
+export function findOrderIssues(entries: LessonOrderEntry[]): OrderIssue[] {
+  const issues: OrderIssue[] = [];
+  const byOrder = new Map<number, string[]>();
+  entries.forEach(({ file, order }) => {
+    byOrder.set(order, [...(byOrder.get(order) ?? []), file]);
+  });
+
+  byOrder.forEach((files, order) => {
+    if (files.length < 2) return;
+    files.forEach((file) => {
+      const others = files.filter((other) => other !== file).join(', ');
+      issues.push({ file, message: `order ${order} is also used by ${others}` });
+    });
+  });
+
+  const orders = [...byOrder.keys()].sort((a, b) => a - b);
+  orders.forEach((order, index) => {
+    const expected = index === 0 ? 1 : orders[index - 1] + 1;
+    if (order === expected) return;
+    const missing = expected === order - 1 ? `${expected}` : `${expected}–${order - 1}`;
+    byOrder.get(order)?.forEach((file) => {
+      issues.push({
+        file,
+        message: `order ${order} leaves a gap (no lesson has order ${missing})`,
+      });
+    });
+  });
+
+  return issues;
+}
+
+/** Heading text without the template's "A. " prefix and " - Scene" suffix */
+function sectionName(heading: string): string {
+  return heading
+    .replace(/^[A-Z]\.\s+/, '')
+    .replace(/\s+[-–—]\s+.*$/, '')
+    .trim()
+    .toLowerCase();
+}
+
+/** Template sections that frontmatter fields render in place of body markdown */
+const FRONTMATTER_SECTIONS: Record<string, (typeof TEMPLATE_SECTIONS)[number]> = {
+  dialogue: 'Text',
+  drills: 'Practice Drills',
+};
+
+/**
+ * Template sections missing from a lesson body, given its headings and
+ * top-level frontmatter keys (a `drills` list counts as Practice Drills).
+ */
+export function findMissingSections(headings: string[], frontmatterKeys: string[]): string[] {
+  const present = new Set([
+    ...headings.map(sectionName),
+    ...frontmatterKeys.map((key) => FRONTMATTER_SECTIONS[key]?.toLowerCase()),
+  ]);
+  return TEMPLATE_SECTIONS.filter((section) => !present.has(section.toLowerCase()));
+}
@@ -0,0 +1,40 @@
+/**
+ * Courses
+ *
+ * The site can host several parallel tracks (e.g. Mexican Spanish,
+ * heritage speakers, business Spanish), each a `courses` entry with its
+ * own lessons:
+ * - Lessons name their course in frontmatter (`course`, default below)
+ * - Lesson URLs are scoped to the course: /<course>/lessons/<slug>
+ * - The course being studied is remembered in a cookie, so course-neutral
+ *   pages (home, appendices) can scope to it
+ *
+ * Kept free of `astro:content` imports so the lesson validation
+ * integration can use it; loading courses lives in src/lib/nav-data.ts.
+ */
+
+import type { AstroCookies } from 'astro';
+
+export const DEFAULT_COURSE = 'mexican-spanish';
+
+export const COURSE_COOKIE = 'course';
+const COURSE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+export function courseHref(course: string): string {
+  return `/${course}`;
+}
+
+export function lessonHref(course: string, slug: string): string {
+  return `${courseHref(course)}/lessons/${slug}`;
+}
+
+export function rememberCourse(cookies: AstroCookies, course: string): void {
+  if (cookies.get(COURSE_COOKIE)?.value === course) return;
+  cookies.set(COURSE_COOKIE, course, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+    maxAge: COURSE_COOKIE_MAX_AGE,
+    path: '/',
+  });
+}
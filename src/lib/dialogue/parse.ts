@@ -0,0 +1,88 @@
+/**
+ * Dialogue Block Parser
+ *
+ * Parses the body of a ```dialogue fenced block into typed lines:
+ *
+ *     María: ¡Hola! ¿Cómo estás?
+ *       ipa: /ˈo.la ˈko.mo esˈtas/
+ *       en: Hi! How are you?
+ *       audio: /audio/lesson-01/line-01.mp3
+ *
+ * Each unindented `Speaker: Spanish` line starts a turn; indented
+ * `ipa:`, `en:` (or `english:`) and `audio:` lines add to it. Problems
+ * throw with the block line number so the build points at them.
+ */
+
+import { AUDIO_URL_PATTERN } from '../audio/paths';
+import { findUndocumentedIpa } from '../ipa/symbols';
+import type { DialogueLine } from './types';
+
+export const DIALOGUE_LANGUAGE = 'dialogue';
+
+const FIELD_ALIASES: Record<string, 'ipa' | 'english' | 'audio'> = {
+  ipa: 'ipa',
+  en: 'english',
+  english: 'english',
+  audio: 'audio',
+};
+
+export class DialogueSyntaxError extends Error {
+  constructor(lineNumber: number, message: string) {
+    super(`Dialogue block line ${lineNumber}: ${message}`);
+    this.name = 'DialogueSyntaxError';
+  }
+}
+
+export function parseDialogue(source: string): DialogueLine[] {
+  const lines: DialogueLine[] = [];
+
+  source.split('\n').forEach((raw, index) => {
+    const lineNumber = index + 1;
+    if (!raw.trim()) return;
+
+    const match = raw.trim().match(/^([^:]+):\s*(.*)$/);
+    if (!match) {
+      throw new DialogueSyntaxError(lineNumber, 'expected "Speaker: line" or "field: value"');
+    }
+    const [, label, value] = match;
+
+    if (!/^\s/.test(raw)) {
+      if (!value.trim()) throw new DialogueSyntaxError(lineNumber, `"${label}" has no line`);
+      lines.push({ speaker: label.trim(), spanish: value.trim() });
+      return;
+    }
+
+    const field = FIELD_ALIASES[label.trim().toLowerCase()];
+    const current = lines[lines.length - 1];
+    if (!field) {
+      throw new DialogueSyntaxError(
+        lineNumber,
+        `unknown field "${label.trim()}" (use ipa, en or audio)`,
+      );
+    }
+    if (!current) throw new DialogueSyntaxError(lineNumber, `"${field}" comes before any speaker`);
+
+    if (field === 'ipa') {
+      const unknown = findUndocumentedIpa(value);
+      if (unknown.length > 0) {
+        throw new DialogueSyntaxError(
+          lineNumber,
+          `symbols not covered by the IPA guide: ${unknown.map((char) => JSON.stringify(char)).join(', ')}`,
+        );
+      }
+    }
+    if (field === 'audio' && !AUDIO_URL_PATTERN.test(value.trim())) {
+      throw new DialogueSyntaxError(lineNumber, 'audio must be a /audio/… URL');
+    }
+
+    current[field] = value.trim();
+  });
+
+  return lines;
+}
+
+/** Contents of every ```dialogue block in a markdown body */
+export function extractDialogueBlocks(markdown: string): string[] {
+  const pattern = new RegExp(`^\`\`\`${DIALOGUE_LANGUAGE}\\s*\\n([\\s\\S]*?)^\`\`\`\\s*$`, 'gm');
+  return [...markdown.matchAll(pattern)].map((match) => match[1]);
+}
@@ -0,0 +1,41 @@
+/**
+ * Remark Dialogue Plugin
+ *
+ * Replaces ```dialogue fenced blocks in markdown with dialogue markup
+ * (see parse.ts for the syntax and render.ts for the output). Syntax
+ * errors fail the content build with the file and block line.
+ */
+
+import { DIALOGUE_LANGUAGE, parseDialogue } from './parse';
+import { renderDialogue } from './render';
+
+// Only the mdast fields this plugin touches
+interface MarkdownNode {
+  type: string;
+  lang?: string | null;
+  value?: string;
+  children?: MarkdownNode[];
+}
+
+interface VFileLike {
+  path?: string;
+}
+
+function transform(node: MarkdownNode, file: VFileLike): void {
+  node.children?.forEach((child, index, siblings) => {
+    if (child.type === 'code' && child.lang === DIALOGUE_LANGUAGE) {
+      try {
+        siblings[index] = { type: 'html', value: renderDialogue(parseDialogue(child.value ?? '')) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`${file.path ?? 'Markdown'}: ${message}`);
+      }
+      return;
+    }
+    transform(child, file);
+  });
+}
+
+export default function remarkDialogue() {
+  return (tree: MarkdownNode, file: VFileLike) => transform(tree, file);
+}
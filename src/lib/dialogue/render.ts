@@ -0,0 +1,80 @@
+/**
+ * Dialogue Markup
+ *
+ * HTML for a dialogue, shared by the lesson's frontmatter dialogue
+ * (components/Dialogue.astro) and ```dialogue blocks in lesson bodies
+ * (remark-dialogue.ts), so both get the same avatars, study toggles and
+ * pronunciation buttons. Styles live in global.css, behaviour in ui.ts.
+ * Labels are written in the translator's locale and also carry their
+ * message keys, since markdown blocks are rendered once for every locale
+ * (localizeMarkup() in src/lib/i18n/client.ts).
+ */
+
+import { SPEAKER_ICON_PATH } from '../audio/icons';
+import { createTranslator, type Translator } from '../i18n';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { renderIpa } from '../ipa/render';
+import { escapeHtml } from '../text';
+import type { DialogueLine } from './types';
+
+/** Distinct avatar colours, assigned in order of first appearance */
+const AVATAR_COLORS = 4;
+
+function initials(speaker: string): string {
+  const words = speaker.trim().split(/\s+/);
+  const letters = words.length > 1 ? words[0][0] + words[words.length - 1][0] : speaker.slice(0, 1);
+  return letters.toUpperCase();
+}
+
+function pronounceButton(line: DialogueLine, { t }: Translator): string {
+  const audio = line.audio ? ` data-audio-src="${escapeHtml(line.audio)}"` : '';
+  const params = { text: line.spanish };
+  return (
+    `<button type="button" class="pronounce-btn" data-pronounce${audio} ` +
+    `data-speak-text="${escapeHtml(line.spanish)}" ` +
+    `aria-label="${escapeHtml(t('audio.playText', params))}" data-i18n-aria-label="audio.playText" ` +
+    `data-i18n-params="${escapeHtml(JSON.stringify(params))}" ` +
+    `title="${escapeHtml(t('audio.play'))}" data-i18n-title="audio.play">` +
+    `<svg fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">` +
+    `<path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="${SPEAKER_ICON_PATH}"></path>` +
+    `</svg></button>`
+  );
+}
+
+function renderLine(line: DialogueLine, speakerIndex: number, translator: Translator): string {
+  const ipa = line.ipa ? `<span class="ipa dialogue-ipa">${renderIpa(line.ipa)}</span>` : '';
+  const english = line.english ? `<p class="dialogue-english">${escapeHtml(line.english)}</p>` : '';
+
+  return (
+    `<li class="dialogue-line">` +
+    `<span class="dialogue-avatar" data-avatar-color="${speakerIndex % AVATAR_COLORS}" aria-hidden="true">${escapeHtml(initials(line.speaker))}</span>` +
+    `<div class="dialogue-line-body">` +
+    `<div class="dialogue-line-header"><strong class="dialogue-speaker">${escapeHtml(line.speaker)}</strong>${pronounceButton(line, translator)}</div>` +
+    `<div class="dialogue-line-text" data-dialogue-line tabindex="0">` +
+    `<p class="dialogue-spanish" lang="es-MX">${escapeHtml(line.spanish)}</p>${ipa}${english}` +
+    `</div></div></li>`
+  );
+}
+
+export function renderDialogue(
+  lines: DialogueLine[],
+  translator: Translator = createTranslator(DEFAULT_LOCALE),
+): string {
+  const speakers: string[] = [];
+  const items = lines.map((line) => {
+    if (!speakers.includes(line.speaker)) speakers.push(line.speaker);
+    return renderLine(line, speakers.indexOf(line.speaker), translator);
+  });
+  const { t } = translator;
+
+  return (
+    `<div class="dialogue" data-dialogue>` +
+    `<div class="dialogue-toolbar">` +
+    `<button type="button" class="dialogue-toggle" data-dialogue-hide="english" aria-pressed="false" data-i18n="dialogue.hideEnglish">${escapeHtml(t('dialogue.hideEnglish'))}</button>` +
+    `<button type="button" class="dialogue-toggle" data-dialogue-hide="spanish" aria-pressed="false" data-i18n="dialogue.hideSpanish">${escapeHtml(t('dialogue.hideSpanish'))}</button>` +
+    `<label class="pronounce-slow"><input type="checkbox" data-pronounce-slow /> <span data-i18n="audio.slow">${escapeHtml(t('audio.slow'))}</span></label>` +
+    `</div>` +
+    `<ol class="dialogue-lines">${items.join('')}</ol>` +
+    `</div>`
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Dialogue Types
+ *
+ * One speaker turn in a lesson dialogue, as declared in the `dialogue`
+ * frontmatter (validated in src/content/config.ts).
+ */
+
+export interface DialogueLine {
+  speaker: string;
+  spanish: string;
+  ipa?: string;
+  english?: string;
+  /** Recording URL under /audio/ */
+  audio?: string;
+}
@@ -0,0 +1,60 @@
+/**
+ * Dialogue Study Toggles
+ *
+ * - "Hide all English" / "Hide all Spanish" blur that language in every
+ *   dialogue on the page, for self-testing
+ * - Clicking a line (or Enter/Space on it) reveals it again
+ */
+
+type HiddenLanguage = 'english' | 'spanish';
+
+let listening = false;
+
+function setHidden(language: HiddenLanguage, hidden: boolean): void {
+  document.querySelectorAll<HTMLElement>('[data-dialogue]').forEach((dialogue) => {
+    dialogue.toggleAttribute(`data-hide-${language}`, hidden);
+    dialogue.querySelectorAll<HTMLElement>('[data-dialogue-line]').forEach((line) => {
+      delete line.dataset.revealed;
+    });
+  });
+  document
+    .querySelectorAll<HTMLElement>(`[data-dialogue-hide="${language}"]`)
+    .forEach((button) => button.setAttribute('aria-pressed', String(hidden)));
+}
+
+/** Reveal or re-hide one line; returns false when nothing is hidden */
+function toggleLine(line: HTMLElement): boolean {
+  const dialogue = line.closest('[data-dialogue]');
+  const hiding =
+    dialogue?.hasAttribute('data-hide-english') || dialogue?.hasAttribute('data-hide-spanish');
+  if (!hiding) return false;
+
+  if (line.dataset.revealed) delete line.dataset.revealed;
+  else line.dataset.revealed = 'true';
+  return true;
+}
+
+export function initDialogues(): void {
+  if (listening) return;
+  listening = true;
+
+  document.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement;
+
+    const toggle = target.closest<HTMLElement>('[data-dialogue-hide]');
+    if (toggle) {
+      const language = toggle.dataset.dialogueHide as HiddenLanguage;
+      setHidden(language, toggle.getAttribute('aria-pressed') !== 'true');
+      return;
+    }
+
+    const line = target.closest<HTMLElement>('[data-dialogue-line]');
+    if (line) toggleLine(line);
+  });
+
+  document.addEventListener('keydown', (event) => {
+    const line = (event.target as HTMLElement).closest<HTMLElement>('[data-dialogue-line]');
+    if (!line || (event.key !== 'Enter' && event.key !== ' ')) return;
+    if (toggleLine(line)) event.preventDefault();
+  });
+}
@@ -0,0 +1,44 @@
+/**
+ * Answer Checking
+ *
+ * Typed answers are compared leniently:
+ * - Case, punctuation (¿?¡!.,;:"') and extra spaces never matter
+ * - Missing accents still count as correct, with a reminder
+ * - Any of the accepted answers matches
+ */
+
+import { foldDiacritics } from '../text';
+
+export type AnswerVerdict = 'correct' | 'accents' | 'incorrect';
+
+export interface AnswerResult {
+  verdict: AnswerVerdict;
+  /** The accepted answer closest to what was typed, for feedback */
+  expected: string;
+}
+
+/** Lowercase, drop punctuation and collapse whitespace; accents are kept */
+export function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[¿?¡!.,;:"'“”‘’«»()…-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function checkTypedAnswer(input: string, answers: string[]): AnswerResult {
+  const typed = normalizeAnswer(input);
+
+  const exact = answers.find((answer) => normalizeAnswer(answer) === typed);
+  if (exact !== undefined) return { verdict: 'correct', expected: exact };
+
+  const folded = foldDiacritics(typed);
+  const accentless = answers.find((answer) => foldDiacritics(normalizeAnswer(answer)) === folded);
+  if (accentless !== undefined) return { verdict: 'accents', expected: accentless };
+
+  return { verdict: 'incorrect', expected: answers[0] ?? '' };
+}
+
+export function isCorrect(result: AnswerResult): boolean {
+  return result.verdict !== 'incorrect';
+}
@@ -0,0 +1,55 @@
+/**
+ * Practice Drill Types
+ *
+ * Drills are declared in lesson frontmatter (`drills`, validated in
+ * src/content/config.ts) and rendered as self-grading exercises:
+ * - translation: type the translation of a prompt
+ * - fill-blank: type the word that replaces `___` in a sentence
+ * - multiple-choice: pick one option
+ * - matching: pair every term with its counterpart
+ *
+ * Typed answers list every accepted variant in `answers`.
+ */
+
+export const DRILL_TYPES = ['translation', 'fill-blank', 'multiple-choice', 'matching'] as const;
+export type DrillType = (typeof DRILL_TYPES)[number];
+
+/** Marks the gap in a fill-blank sentence */
+export const BLANK_MARKER = '___';
+
+export interface TypedAnswerItem {
+  prompt: string;
+  answers: string[];
+}
+
+export interface MultipleChoiceItem {
+  question: string;
+  options: string[];
+  /** Options that count as correct (usually one) */
+  answers: string[];
+}
+
+export interface MatchingPair {
+  term: string;
+  match: string;
+}
+
+interface DrillBase {
+  title?: string;
+  instructions?: string;
+}
+
+export type Drill =
+  | (DrillBase & { type: 'translation'; items: TypedAnswerItem[] })
+  | (DrillBase & { type: 'fill-blank'; items: TypedAnswerItem[] })
+  | (DrillBase & { type: 'multiple-choice'; items: MultipleChoiceItem[] })
+  | (DrillBase & { type: 'matching'; pairs: MatchingPair[] });
+
+/** Stable ID for a lesson's nth drill, used in anchors and saved results */
+export function drillId(index: number): string {
+  return `drill-${index + 1}`;
+}
+
+export function countDrillItems(drill: Drill): number {
+  return drill.type === 'matching' ? drill.pairs.length : drill.items.length;
+}
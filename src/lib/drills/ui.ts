@@ -0,0 +1,149 @@
+/**
+ * Drill UI
+ *
+ * Client side of the lesson practice drills (components/Drills.astro):
+ * - "Check answers" marks every item and shows the expected answer
+ *   for mistakes
+ * - Each check saves the drill's score with the lesson's progress
+ * - The latest saved scores are shown again on the next visit
+ */
+
+import { plural, t } from '../i18n/client';
+import {
+  readLocalProgress,
+  updateLessonProgress,
+  type DrillResult,
+  type ProgressData,
+} from '../progress/index';
+import { checkTypedAnswer, isCorrect, type AnswerResult } from './check';
+
+// HTMLSelectElement conflicts with the Workers runtime types; only these members are used
+type SelectElement = HTMLElement & { value: string };
+
+function formatScore(result: Pick<DrillResult, 'score' | 'total'>): string {
+  return t('drills.score', { score: result.score, total: result.total });
+}
+
+/** The learner's answer to one item, or '' if nothing was entered */
+function readAnswer(item: HTMLElement): string {
+  const input = item.querySelector('.drill-input') as HTMLInputElement | null;
+  if (input) return input.value;
+
+  const select = item.querySelector('.drill-select') as SelectElement | null;
+  if (select) return select.value;
+
+  const checked = item.querySelector('input[type="radio"]:checked') as HTMLInputElement | null;
+  return checked?.value ?? '';
+}
+
+function checkItem(item: HTMLElement, type: string, answers: string[]): AnswerResult {
+  const answer = readAnswer(item);
+  if (type === 'translation' || type === 'fill-blank') return checkTypedAnswer(answer, answers);
+
+  // Chosen options match exactly
+  return answers.includes(answer)
+    ? { verdict: 'correct', expected: answer }
+    : { verdict: 'incorrect', expected: answers[0] ?? '' };
+}
+
+function showResult(item: HTMLElement, result: AnswerResult): void {
+  item.dataset.result = result.verdict;
+  const feedback = item.querySelector('[data-drill-feedback]');
+  if (!feedback) return;
+
+  if (result.verdict === 'correct') feedback.textContent = t('drills.correct');
+  else if (result.verdict === 'accents')
+    feedback.textContent = t('drills.accents', { answer: result.expected });
+  else feedback.textContent = t('drills.answer', { answer: result.expected });
+}
+
+function clearResult(item: HTMLElement): void {
+  delete item.dataset.result;
+  const feedback = item.querySelector('[data-drill-feedback]');
+  if (feedback) feedback.textContent = '';
+
+  item.querySelectorAll<HTMLInputElement>('input').forEach((input) => {
+    if (input.type === 'radio') input.checked = false;
+    else input.value = '';
+  });
+  const select = item.querySelector('.drill-select') as SelectElement | null;
+  if (select) select.value = '';
+}
+
+function renderSummary(summary: HTMLElement | null, results: DrillResult[], count: number): void {
+  if (!summary) return;
+  if (results.length === 0) {
+    summary.hidden = true;
+    return;
+  }
+
+  const score = results.reduce((sum, result) => sum + result.score, 0);
+  const total = results.reduce((sum, result) => sum + result.total, 0);
+  summary.textContent = t('drills.summary', {
+    score: formatScore({ score, total }),
+    done: results.length,
+    count,
+  });
+  summary.hidden = false;
+}
+
+export function initDrills(): void {
+  const article = document.querySelector('[data-lesson-slug]') as HTMLElement | null;
+  const slug = article?.dataset.lessonSlug;
+  const drills = Array.from(document.querySelectorAll<HTMLElement>('[data-drill]'));
+  if (!slug || drills.length === 0) return;
+
+  const summary = document.querySelector('[data-drills-summary]') as HTMLElement | null;
+  const savedResults = (progress: ProgressData) => progress.lessons[slug]?.drills ?? {};
+  const refreshSummary = () =>
+    renderSummary(summary, Object.values(savedResults(readLocalProgress())), drills.length);
+
+  refreshSummary();
+
+  drills.forEach((drill) => {
+    if (drill.dataset.initialized) return;
+    drill.dataset.initialized = 'true';
+
+    const id = drill.dataset.drill ?? '';
+    const type = drill.dataset.drillType ?? '';
+    const answerElement = drill.querySelector('[data-drill-answers]');
+    const answerKey = JSON.parse(answerElement?.textContent || '[]') as string[][];
+    const items = Array.from(drill.querySelectorAll<HTMLElement>('[data-drill-item]'));
+    const scoreElement = drill.querySelector('[data-drill-score]') as HTMLElement;
+
+    const saved = savedResults(readLocalProgress())[id];
+    if (saved) scoreElement.textContent = t('drills.lastTime', { score: formatScore(saved) });
+
+    drill.querySelector('[data-drill-check]')?.addEventListener('click', () => {
+      const results = items.map((item, index) => checkItem(item, type, answerKey[index] ?? []));
+      results.forEach((result, index) => showResult(items[index], result));
+
+      const result: DrillResult = {
+        score: results.filter(isCorrect).length,
+        total: items.length,
+        checkedAt: new Date().toISOString(),
+      };
+      scoreElement.textContent = formatScore(result);
+
+      updateLessonProgress(slug, {
+        drills: { ...savedResults(readLocalProgress()), [id]: result },
+      })
+        .then(refreshSummary)
+        .catch(() => {});
+    });
+
+    drill.querySelector('[data-drill-reset]')?.addEventListener('click', () => {
+      items.forEach(clearResult);
+      scoreElement.textContent = plural('drills.questions', items.length);
+      items[0]?.querySelector<HTMLElement>('input, select')?.focus();
+    });
+
+    // Enter in a text answer checks the drill
+    drill.addEventListener('keydown', (event) => {
+      const target = event.target as HTMLElement;
+      if (event.key !== 'Enter' || !target.classList.contains('drill-input')) return;
+      event.preventDefault();
+      (drill.querySelector('[data-drill-check]') as HTMLButtonElement | null)?.click();
+    });
+  });
+}
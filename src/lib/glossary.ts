@@ -0,0 +1,129 @@
+/**
+ * Glossary Builder
+ *
+ * Merges the vocabulary declared in every lesson into a single
+ * de-duplicated glossary, sorted with Spanish collation (ñ after n,
+ * accents ignored) and grouped by initial letter.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { lessonHref } from './courses';
+import { stripAccents, wordSlug } from './text';
+
+export interface GlossaryLessonRef {
+  slug: string;
+  /** Lesson page, under the lesson's course */
+  href: string;
+  title: string;
+  order: number;
+}
+
+export interface GlossaryEntry {
+  /** Stable anchor ID for deep links (e.g. "glossary-mucho-gusto") */
+  id: string;
+  spanish: string;
+  ipa?: string;
+  english: string[];
+  notes: string[];
+  lessons: GlossaryLessonRef[];
+}
+
+export interface GlossaryGroup {
+  letter: string;
+  id: string;
+  entries: GlossaryEntry[];
+}
+
+/** Spanish alphabet used for the jump bar (Ñ is its own letter) */
+export const GLOSSARY_ALPHABET = 'ABCDEFGHIJKLMNÑOPQRSTUVWXYZ'.split('');
+
+const OTHER_LETTER = '#';
+
+const collator = new Intl.Collator('es', { sensitivity: 'base', ignorePunctuation: true });
+
+/**
+ * Key used to decide whether two vocabulary entries are the same word.
+ * Case, accents and surrounding punctuation (¿ ¡ ? !) are ignored.
+ */
+function entryKey(spanish: string): string {
+  return stripAccents(spanish)
+    .toLowerCase()
+    .replace(/[¿¡?!.,;:"'«»]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function letterFor(key: string): string {
+  const first = key.match(/\p{L}/u)?.[0]?.toUpperCase();
+  return first && GLOSSARY_ALPHABET.includes(first) ? first : OTHER_LETTER;
+}
+
+export function letterId(letter: string): string {
+  return letter === OTHER_LETTER ? 'letter-other' : `letter-${letter.toLowerCase()}`;
+}
+
+function addUnique(list: string[], value: string | undefined): void {
+  const trimmed = value?.trim();
+  if (!trimmed) return;
+  const exists = list.some((item) => item.toLowerCase() === trimmed.toLowerCase());
+  if (!exists) list.push(trimmed);
+}
+
+export function buildGlossary(lessons: CollectionEntry<'lessons'>[]): GlossaryEntry[] {
+  const entries = new Map<string, GlossaryEntry>();
+  const sortedLessons = [...lessons].sort((a, b) => a.data.order - b.data.order);
+
+  for (const lesson of sortedLessons) {
+    const lessonRef: GlossaryLessonRef = {
+      slug: lesson.slug,
+      href: lessonHref(lesson.data.course, lesson.slug),
+      title: lesson.data.title,
+      order: lesson.data.order,
+    };
+
+    for (const word of lesson.data.vocabulary ?? []) {
+      const spanish = word.spanish?.trim();
+      if (!spanish) continue;
+
+      const key = entryKey(spanish);
+      if (!key) continue;
+
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = {
+          id: `glossary-${wordSlug(key)}`,
+          spanish,
+          english: [],
+          notes: [],
+          lessons: [],
+        };
+        entries.set(key, entry);
+      }
+
+      entry.ipa ??= word.ipa?.trim() || undefined;
+      addUnique(entry.english, word.english);
+      addUnique(entry.notes, word.notes);
+      if (!entry.lessons.some((ref) => ref.slug === lessonRef.slug)) {
+        entry.lessons.push(lessonRef);
+      }
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => collator.compare(a.spanish, b.spanish));
+}
+
+export function groupGlossary(entries: GlossaryEntry[]): GlossaryGroup[] {
+  const groups = new Map<string, GlossaryEntry[]>();
+
+  for (const entry of entries) {
+    const letter = letterFor(entryKey(entry.spanish));
+    const group = groups.get(letter) ?? [];
+    group.push(entry);
+    groups.set(letter, group);
+  }
+
+  const order = [...GLOSSARY_ALPHABET, OTHER_LETTER];
+  return order
+    .filter((letter) => groups.has(letter))
+    .map((letter) => ({ letter, id: letterId(letter), entries: groups.get(letter)! }));
+}
@@ -0,0 +1,98 @@
+/**
+ * Grammar Topics
+ *
+ * Collects the `grammarTopics` of every lesson into one list of topics,
+ * each with a slugged page (/grammar/<slug>) and the lessons covering it.
+ * Topics that differ only in case or accents are merged.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import type { LessonSection } from './content/lesson-rules';
+import { lessonHref } from './courses';
+import { slugify } from './text';
+
+export interface GrammarLessonRef {
+  slug: string;
+  /** Lesson page, under the lesson's course */
+  href: string;
+  title: string;
+  section: LessonSection;
+  order: number;
+  description: string;
+}
+
+export interface GrammarTopic {
+  slug: string;
+  /** Name as first written in a lesson (lowest order) */
+  name: string;
+  lessons: GrammarLessonRef[];
+}
+
+export interface GrammarTopicGroup {
+  letter: string;
+  id: string;
+  topics: GrammarTopic[];
+}
+
+const collator = new Intl.Collator('es', { sensitivity: 'base', ignorePunctuation: true });
+
+export function grammarTopicSlug(name: string): string {
+  return slugify(name);
+}
+
+export function grammarTopicHref(name: string): string {
+  return `/grammar/${grammarTopicSlug(name)}`;
+}
+
+export function buildGrammarTopics(lessons: CollectionEntry<'lessons'>[]): GrammarTopic[] {
+  const topics = new Map<string, GrammarTopic>();
+  const sortedLessons = [...lessons].sort((a, b) => a.data.order - b.data.order);
+
+  for (const lesson of sortedLessons) {
+    const lessonRef: GrammarLessonRef = {
+      slug: lesson.slug,
+      href: lessonHref(lesson.data.course, lesson.slug),
+      title: lesson.data.title,
+      section: lesson.data.section,
+      order: lesson.data.order,
+      description: lesson.data.description,
+    };
+
+    for (const name of lesson.data.grammarTopics ?? []) {
+      const slug = grammarTopicSlug(name);
+      if (!slug) continue;
+
+      let topic = topics.get(slug);
+      if (!topic) {
+        topic = { slug, name: name.trim(), lessons: [] };
+        topics.set(slug, topic);
+      }
+      if (!topic.lessons.some((ref) => ref.slug === lessonRef.slug)) {
+        topic.lessons.push(lessonRef);
+      }
+    }
+  }
+
+  return [...topics.values()].sort((a, b) => collator.compare(a.name, b.name));
+}
+
+/** Group sorted topics by their first letter for the index page */
+export function groupGrammarTopics(topics: GrammarTopic[]): GrammarTopicGroup[] {
+  const groups: GrammarTopicGroup[] = [];
+
+  for (const topic of topics) {
+    const letter = topic.slug.match(/[a-z]/)?.[0]?.toUpperCase() ?? '#';
+    let group = groups.find((candidate) => candidate.letter === letter);
+    if (!group) {
+      group = {
+        letter,
+        id: letter === '#' ? 'topics-other' : `topics-${letter.toLowerCase()}`,
+        topics: [],
+      };
+      groups.push(group);
+    }
+    group.topics.push(topic);
+  }
+
+  return groups;
+}
@@ -0,0 +1,13 @@
+/**
+ * HTTP Responses
+ *
+ * Helpers shared by the API endpoints (src/pages/api/).
+ */
+
+/** A JSON response that is never cached: the data belongs to the signed-in user */
+export function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Interface Messages on the Client
+ *
+ * - The page's locale comes from `<html data-locale>` (set by BaseLayout)
+ * - Switching locale writes the cookie the server reads and reloads
+ * - Markup rendered once for everyone (dialogue blocks in lesson
+ *   markdown) marks its labels with `data-i18n`, `data-i18n-aria-label`
+ *   and `data-i18n-title` (message keys), plus `data-i18n-params` (JSON);
+ *   `localizeMarkup()` fills them in for the current locale
+ */
+
+import { createTranslator, type MessageKey, type MessageParams, type Translator } from './index';
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_MAX_AGE,
+  type Locale,
+} from './locales';
+
+let translator: Translator | null = null;
+
+export function currentLocale(): Locale {
+  const locale = document.documentElement.dataset.locale;
+  return isLocale(locale) ? locale : DEFAULT_LOCALE;
+}
+
+function getTranslator(): Translator {
+  if (translator?.locale !== currentLocale()) translator = createTranslator(currentLocale());
+  return translator;
+}
+
+export function t(key: MessageKey, params?: MessageParams): string {
+  return getTranslator().t(key, params);
+}
+
+export const plural: Translator['plural'] = (key, count, params) =>
+  getTranslator().plural(key, count, params);
+
+export function setLocale(locale: Locale): void {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; Path=/; Max-Age=${LOCALE_COOKIE_MAX_AGE}; SameSite=Lax`;
+  window.location.reload();
+}
+
+function readParams(element: HTMLElement): MessageParams | undefined {
+  try {
+    return element.dataset.i18nParams ? JSON.parse(element.dataset.i18nParams) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function localizeMarkup(root: ParentNode = document): void {
+  if (currentLocale() === DEFAULT_LOCALE) return;
+
+  root
+    .querySelectorAll<HTMLElement>('[data-i18n], [data-i18n-aria-label], [data-i18n-title]')
+    .forEach((element) => {
+      const { i18n, i18nAriaLabel, i18nTitle } = element.dataset;
+      const params = readParams(element);
+      if (i18n) element.textContent = t(i18n as MessageKey, params);
+      if (i18nAriaLabel) element.setAttribute('aria-label', t(i18nAriaLabel as MessageKey, params));
+      if (i18nTitle) element.title = t(i18nTitle as MessageKey, params);
+    });
+}
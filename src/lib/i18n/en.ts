@@ -0,0 +1,457 @@
+/**
+ * English Messages
+ *
+ * The reference catalog: every key used by the interface is defined here,
+ * and other locales must define the same keys (see index.ts).
+ * - `{name}` placeholders are filled in by `t()`
+ * - Keys ending in `.one` / `.other` are plural forms, used by `plural()`
+ */
+
+export const en = {
+  // Layout and header
+  'site.skipToContent': 'Skip to main content',
+  'nav.label': 'Site navigation',
+  'nav.main': 'Main navigation',
+  'nav.drawer': 'Navigation menu',
+  'nav.drawerTitle': 'Navigation',
+  'nav.openMenu': 'Open navigation menu',
+  'nav.closeMenu': 'Close navigation menu',
+  'nav.toggleSidebar': 'Toggle sidebar',
+  'nav.resize': 'Resize sidebar',
+
+  // Table of contents
+  'toc.label': 'Table of contents',
+  'toc.open': 'Open table of contents',
+  'toc.close': 'Close table of contents',
+  'toc.onThisPage': 'On this page',
+  'toc.contents': 'Contents',
+  'toc.empty': 'No sections on this page',
+
+  // Sidebar
+  'nav.home': 'Home',
+  'nav.about': 'About',
+  'nav.review': 'Flashcard Review',
+  'nav.placement': 'Placement Test',
+  'nav.offline': 'Offline Reading',
+  'nav.account': 'Account',
+  'nav.logout': 'Logout',
+  'nav.frontMatter': 'Front Matter',
+  'nav.appendices': 'Appendices',
+  'nav.admin': 'Admin',
+  'nav.classProgress': 'Class Progress',
+  'nav.students': 'Students',
+  'nav.auditLog': 'Audit Log',
+  'nav.searchPlaceholder': 'Search lessons... (Press /)',
+  'nav.searchLabel': 'Search navigation',
+  'nav.noMatches': 'No matching lessons',
+  'nav.sectionProgress': '{section} lessons completed',
+  'nav.sectionItems': '{section} navigation items',
+
+  // Lesson sections (LESSON_SECTIONS)
+  'section.Foundation': 'Foundation',
+  'section.Intermediate': 'Intermediate',
+  'section.Advanced': 'Advanced',
+  'section.lessons': '{section} Lessons',
+
+  // Theme and language toggles
+  'theme.toggle': 'Toggle dark mode',
+  'theme.dark': 'Dark Mode',
+  'theme.light': 'Light Mode',
+  'locale.switchTo': 'Show the interface in {language}',
+
+  // Search
+  'search.placeholder': 'Search...',
+  'search.label': 'Search',
+  'search.unavailable': 'Search is unavailable right now',
+  'search.noResults': 'No results in lesson content',
+  'search.heading': 'In lesson content',
+  'search.kind.lesson': 'Lesson',
+  'search.kind.vocabulary': 'Vocabulary',
+  'search.kind.verb': 'Verb',
+  'search.kind.page': 'Page',
+
+  // Command palette
+  'palette.label': 'Command palette',
+  'palette.placeholder': 'Go to a lesson, heading or word, or run a command...',
+  'palette.empty': 'Nothing matches',
+  'palette.hint': '↑↓ to move · Enter to open · Esc to close',
+  'palette.group.recent': 'Recent',
+  'palette.group.action': 'Actions',
+  'palette.group.heading': 'On this page',
+  'palette.group.lesson': 'Lessons',
+  'palette.group.page': 'Pages',
+  'palette.group.vocabulary': 'Vocabulary',
+  'palette.action.darkMode': 'Switch to dark mode',
+  'palette.action.lightMode': 'Switch to light mode',
+  'palette.action.review': 'Review due cards',
+  'palette.action.complete': 'Mark this lesson complete',
+  'palette.action.incomplete': 'Mark this lesson not complete',
+  'palette.action.reviewLesson': "Review this lesson's words",
+
+  // Course home
+  'course.continue': 'Continue where you left off',
+  'course.percentRead': '{percent}% read',
+  'course.upNext': 'Up next after your last completed lesson',
+  'course.otherCourses': 'Other courses',
+
+  // Lesson pages
+  'lesson.vocabulary': 'Vocabulary',
+  'lesson.dialogue': 'Dialogue',
+  'lesson.idioms': 'Idioms & Expressions',
+  'lesson.culturalNotes': 'Cultural Notes',
+  'lesson.drills': 'Practice Drills',
+  'lesson.download': 'Download:',
+  'lesson.downloadAll': 'All lessons ({format})',
+  'lesson.reviewFlashcards': 'Review these words as flashcards →',
+  'lesson.literal': '(lit. “{literal}”)',
+  'lesson.readMore': 'Read more →',
+  'lesson.grammarTopics': 'Grammar Topics:',
+  'lesson.verbs': 'Verbs:',
+  'lesson.markComplete': 'Mark as complete',
+  'lesson.completed': '✓ Completed',
+  'lesson.testedOut': '✓ Tested out',
+  'lesson.printHandout': 'Printable {section} handout',
+  'lesson.navigation': 'Lesson navigation',
+  'lesson.previous': 'Previous',
+  'lesson.next': 'Next',
+
+  // Vocabulary table
+  'vocabulary.spanish': 'Spanish',
+  'vocabulary.ipa': 'IPA',
+  'vocabulary.english': 'English',
+  'vocabulary.notes': 'Notes',
+
+  // IPA symbols and chart
+  'ipa.seeChart': 'See it in the IPA chart →',
+  'ipa.consonantChart': 'Consonants by place and manner of articulation',
+  'ipa.vowelChart': 'Vowels by tongue height and position',
+  'ipa.diacritics': 'Diacritics and suprasegmentals',
+  'ipa.choose': 'Choose a symbol to see how to pronounce it.',
+  'ipa.approximation': 'Closest English sound:',
+  'ipa.examples': 'Examples',
+  'ipa.lessons': 'Used in:',
+  'ipa.noLessons': 'Not used in this course’s lessons yet.',
+  'ipa.place.bilabial': 'Bilabial',
+  'ipa.place.labiodental': 'Labiodental',
+  'ipa.place.dental': 'Dental',
+  'ipa.place.alveolar': 'Alveolar',
+  'ipa.place.postalveolar': 'Postalveolar',
+  'ipa.place.palatal': 'Palatal',
+  'ipa.place.velar': 'Velar',
+  'ipa.manner.stop': 'Stop',
+  'ipa.manner.fricative': 'Fricative',
+  'ipa.manner.affricate': 'Affricate',
+  'ipa.manner.nasal': 'Nasal',
+  'ipa.manner.tap': 'Tap',
+  'ipa.manner.trill': 'Trill',
+  'ipa.manner.lateral': 'Lateral',
+  'ipa.manner.approximant': 'Approximant',
+  'ipa.height.close': 'Close',
+  'ipa.height.mid': 'Mid',
+  'ipa.height.open': 'Open',
+  'ipa.backness.front': 'Front',
+  'ipa.backness.central': 'Central',
+  'ipa.backness.back': 'Back',
+
+  // Pronunciation and dialogues
+  'audio.play': 'Play pronunciation',
+  'audio.playText': 'Play pronunciation of “{text}”',
+  'audio.slow': 'Slow playback',
+  'dialogue.hideEnglish': 'Hide all English',
+  'dialogue.hideSpanish': 'Hide all Spanish',
+
+  // Registers (REGISTERS)
+  'register.formal': 'Formal',
+  'register.neutral': 'Neutral',
+  'register.informal': 'Informal',
+  'register.slang': 'Slang',
+  'register.vulgar': 'Vulgar',
+
+  // Practice drills
+  'drills.title': 'Drill {number}: {title}',
+  'drills.type.translation': 'Translation',
+  'drills.type.fill-blank': 'Fill in the Blank',
+  'drills.type.multiple-choice': 'Multiple Choice',
+  'drills.type.matching': 'Matching',
+  'drills.missingWord': 'Missing word: {prompt}',
+  'drills.choose': 'Choose…',
+  'drills.check': 'Check answers',
+  'drills.reset': 'Try again',
+  'drills.questions.one': '{count} question',
+  'drills.questions.other': '{count} questions',
+  'drills.answerKey': 'Answer Key',
+  'drills.score': '{score}/{total} correct',
+  'drills.lastTime': 'Last time: {score}',
+  'drills.summary': 'Your latest results: {score} across {done} of {count} drills.',
+  'drills.correct': '✓ Correct',
+  'drills.accents': '✓ Watch the accents: {answer}',
+  'drills.answer': '✗ Answer: {answer}',
+
+  // Flashcard review
+  'review.description': 'Practice lesson vocabulary. Cards you know well come back less often.',
+  'review.chooseDeck': 'Choose a deck',
+  'review.deck': 'Deck',
+  'review.deck.due': 'Everything due today',
+  'review.deck.sections': 'Sections',
+  'review.deck.lessons': 'Lessons',
+  'review.deck.counts': '{deck} ({due} due, {new} new)',
+  'review.directions': 'Cards',
+  'review.direction.es-en': 'Spanish → English',
+  'review.direction.en-es': 'English → Spanish',
+  'review.direction.ipa-es': 'IPA → Spanish',
+  'review.start': 'Start Review',
+  'review.loading': 'Loading your progress…',
+  'review.noDirections': 'Choose at least one card direction.',
+  'review.nothingDue': 'Nothing to review in this deck today. ¡Buen trabajo!',
+  'review.queue.one': '{count} card in this session.',
+  'review.queue.other': '{count} cards in this session.',
+  'review.sync.account': 'Progress is saved to your account.',
+  'review.sync.device':
+    'Offline: progress is saved on this device and will sync when you reconnect.',
+  'review.session': 'Review session',
+  'review.prompt.es-en': 'What does this mean?',
+  'review.prompt.en-es': 'How do you say this in Spanish?',
+  'review.prompt.ipa-es': 'Which word is this?',
+  'review.showAnswer': 'Show Answer',
+  'review.grade.again': 'Again',
+  'review.grade.hard': 'Hard',
+  'review.grade.good': 'Good',
+  'review.grade.easy': 'Easy',
+  'review.interval.days.one': '{count} day',
+  'review.interval.days.other': '{count} days',
+  'review.interval.months.one': '{count} mo',
+  'review.interval.months.other': '{count} mo',
+  'review.interval.years.one': '{count} yr',
+  'review.interval.years.other': '{count} yr',
+  'review.end': 'End session',
+  'review.summary': 'Session summary',
+  'review.noneReviewed': 'No cards reviewed.',
+  'review.reviewed.one': 'You reviewed {count} card.',
+  'review.reviewed.other': 'You reviewed {count} cards.',
+  'review.reviewedAgain.one': 'You reviewed {count} card, {again} of them again.',
+  'review.reviewedAgain.other': 'You reviewed {count} cards, {again} of them again.',
+  'review.backToDecks': 'Back to Decks',
+
+  // Placement test
+  'placement.description': 'Find out where to start in the course.',
+  'placement.about': 'About the placement test',
+  'placement.intro':
+    'Not sure where to start in {course}? Answer up to {count} questions per section, starting with the first. Get {percent}% of a section right to move on to the next one.',
+  'placement.note':
+    'Some questions ask how well you know a grammar topic: answer honestly, it only decides where you start.',
+  'placement.start': 'Start the Test',
+  'placement.question': 'Placement question',
+  'placement.source.vocabulary': 'Vocabulary',
+  'placement.source.grammar': 'Grammar',
+  'placement.source.question': 'Question',
+  'placement.prompt.vocabulary': 'What does “{word}” mean?',
+  'placement.prompt.grammar': 'How well do you know this? {topic}',
+  'placement.grammar.known': 'I can use it',
+  'placement.grammar.seen': "I've seen it but I'm not sure",
+  'placement.grammar.new': "It's new to me",
+  'placement.result': 'Placement result',
+  'placement.section': 'Section',
+  'placement.score': 'Score',
+  'placement.scoreOf': '{percent}% of {count}',
+  'placement.outcome': 'Result',
+  'placement.outcome.passed': 'Passed',
+  'placement.outcome.failed': 'Start here',
+  'placement.outcome.untested': 'Not tested',
+  'placement.recommended': 'We recommend starting with “{lesson}”.',
+  'placement.noLessons': 'This course has no lessons yet.',
+  'placement.goToLesson': 'Go to the Lesson',
+  'placement.testOut.one': 'Mark the {count} earlier lesson as tested out',
+  'placement.testOut.other': 'Mark the {count} earlier lessons as tested out',
+  'placement.testedOut': 'Done. They are checked off in the sidebar.',
+  'placement.saveFailed': 'Could not save your progress. Try again.',
+  'placement.retake': 'Retake',
+
+  // Appendix listings
+  'listing.empty': 'Nothing matches these filters.',
+  'listing.allRegisters': 'All registers',
+  'listing.allRegions': 'All regions',
+  'listing.count.one': '{count} entry',
+  'listing.count.other': '{count} entries',
+  'listing.countFiltered': '{visible} of {total} entries',
+  'listing.see': 'See:',
+
+  // Appendices
+  'glossary.title': 'Spanish-English Glossary',
+  'glossary.description':
+    'Every vocabulary item introduced in the lessons, alphabetized in Spanish order.',
+  'glossary.jumpToLetter': 'Jump to letter',
+  'glossary.empty': 'No vocabulary has been added to the lessons yet.',
+  'idioms.description':
+    'Everyday Mexican idioms with their literal and actual meanings, register and region.',
+  'idioms.empty': 'No idioms have been added yet.',
+  'idioms.search': 'Search idioms',
+  'idioms.literally': 'Literally: “{literal}”',
+  'culturalNotes.title': 'Cultural Notes Compendium',
+  'culturalNotes.description':
+    'Customs, etiquette and everyday culture that shape how Spanish is spoken in Mexico.',
+  'culturalNotes.empty': 'No cultural notes have been added yet.',
+  'culturalNotes.search': 'Search cultural notes',
+  'grammar.title': 'Grammar Reference',
+  'grammar.description':
+    'Every grammar topic covered in the course, with the lessons that teach it.',
+  'grammar.empty': 'No grammar topics have been added to the lessons yet.',
+  'grammar.back': '← Grammar Reference',
+  'grammar.topicDescription.one': 'Grammar topic covered in {count} lesson.',
+  'grammar.topicDescription.other': 'Grammar topic covered in {count} lessons.',
+  'grammar.coveredIn.one': 'Covered in {count} lesson:',
+  'grammar.coveredIn.other': 'Covered in {count} lessons:',
+  'verbs.title': 'Verb Conjugation Tables',
+  'verbs.description':
+    'Complete conjugations for the verbs used in this course, following Mexican usage.',
+  'verbs.ustedesTitle': 'Ustedes, not vosotros',
+  'verbs.ustedes':
+    'Mexican Spanish uses ustedes for every plural “you”, formal or informal. The vosotros forms taught in Spain are not used and are left out of these tables. Tense names follow the terminology common in Mexican schools, with English equivalents.',
+  'verbs.empty': 'No verbs have been added yet.',
+  'verbs.regularity.regular': 'Regular',
+  'verbs.regularity.stem-changing': 'Stem-changing',
+  'verbs.regularity.irregular': 'Irregular',
+  'verbs.gerund': 'Gerund:',
+  'verbs.participle': 'Participle:',
+  'verbs.person': 'Person',
+
+  // Offline reading
+  'offline.save': 'Save for offline',
+  'offline.remove': 'Remove from device',
+  'offline.removed': 'Removed from this device.',
+  'offline.saving': 'Saving {done} of {total}…',
+  'offline.saved': 'Saved. This section is available offline.',
+  'offline.failed':
+    '{failed} of {total} pages could not be saved. Check your connection and try again.',
+  'offline.error': 'Something went wrong. Reload the page and try again.',
+  'offline.description': 'Save course sections on this device to study without a connection.',
+  'offline.general': 'General',
+  'offline.youAreOffline': 'You are offline',
+  'offline.notSaved':
+    'The page you asked for has not been saved on this device. Pages marked below are available.',
+  'offline.intro':
+    'Every page you open is kept on this device, so you can come back to it without a connection. To study ahead, save a whole section below. Progress you make offline is sent to your account once you are back online.',
+  'offline.unavailable':
+    'Offline reading is not available in this browser, or the page needs to be reloaded once first.',
+  'offline.savedMark': '✓ saved',
+
+  // Print documents
+  'print.back': '← Back to the course',
+  'print.print': 'Print or save as PDF',
+  'print.description': 'All {section} lessons in one printable document',
+  'print.lessonCount.one': '{count} lesson',
+  'print.lessonCount.other': '{count} lessons',
+  'print.answerKey': 'Answer Key',
+
+  // Sign-in
+  'login.title': 'Login',
+  'login.heading': 'Welcome!',
+  'login.email': 'Email',
+  'login.password': 'Password',
+  'login.submit': 'Enter',
+  'login.noAccount': 'No account yet? Ask your teacher for an invite link.',
+  'login.invalid': 'Invalid email or password',
+  'login.invalidLocked':
+    'Invalid email or password - too many failed attempts, try again in {time}',
+  'login.locked': 'Too many failed attempts - try again in {time}',
+  'login.error': 'An error occurred - please try again',
+  'login.serverError': 'Server configuration error - contact administrator',
+  'time.seconds.one': '{count} second',
+  'time.seconds.other': '{count} seconds',
+  'time.minutes.one': '{count} minute',
+  'time.minutes.other': '{count} minutes',
+
+  // Creating an account (setup and invites)
+  'signup.name': 'Your Name',
+  'signup.confirmPassword': 'Confirm Password',
+  'signup.nameRequired': 'Please enter your name',
+  'signup.invalidEmail': 'Please enter a valid email address',
+  'signup.passwordTooShort': 'Password must be at least {min} characters',
+  'signup.passwordMismatch': 'Passwords do not match',
+  'setup.title': 'Setup',
+  'setup.heading': 'Set Up',
+  'setup.notice':
+    'Create the administrator account. You will need the site access code from the deployment settings.',
+  'setup.code': 'Access Code',
+  'setup.invalidCode': 'Invalid access code',
+  'setup.submit': 'Create Admin Account',
+  'invite.title': 'Create Account',
+  'invite.heading': '¡Bienvenido!',
+  'invite.accountExists': 'An account for this email already exists - please log in',
+  'invite.submit': 'Create Account',
+  'invite.invalid': 'This invite link is invalid or has expired. Ask your teacher for a new one.',
+  'invite.backToLogin': 'Back to login',
+
+  // Account page
+  'account.details': 'Details',
+  'account.name': 'Name',
+  'account.email': 'Email',
+  'account.role': 'Role',
+  'account.memberSince': 'Member since',
+  'account.preferences': 'Preferences',
+  'account.preferencesNote':
+    "Dark mode, the sidebar width and open sections, flashcard directions and slow pronunciation are saved to your account, so they follow you between devices. Turn this off to keep this device's settings to itself.",
+  'account.syncPreferences': 'Sync preferences on this device',
+  'account.sessions': 'Sessions',
+  'account.sessionsNote':
+    'You stay signed in on each device for up to {absoluteDays} days, or until you have not visited for {idleDays} days. If you signed in on a shared or lost device, end every session below. You will need to sign in again here too.',
+  'account.logoutAll': 'Log Out All Devices',
+  'role.admin': 'Admin',
+  'role.student': 'Student',
+
+  // Admin: students
+  'students.description': 'Invite students and manage who can access the course.',
+  'students.invite': 'Invite a Student',
+  'students.createInvite': 'Create Invite',
+  'students.pendingInvites': 'Pending Invites',
+  'students.noInvites': 'No pending invites.',
+  'students.sent': 'Sent',
+  'students.link': 'Link',
+  'students.inviteLink': 'Invite link',
+  'students.accounts': 'Accounts',
+  'students.joined': 'Joined',
+  'students.revoke': 'Revoke',
+  'students.confirmRevoke': 'Revoke access for {email}?',
+  'students.hasAccount': '{email} already has an account',
+  'students.inviteCreated': 'Invite created for {email}. Send them this link (valid for 7 days):',
+  'students.inviteRevoked': 'Invite revoked',
+  'students.noSuchAccount': 'That account no longer exists',
+  'students.revokeSelf': 'You cannot revoke your own account',
+  'students.revoked': 'Revoked access for {name} ({email})',
+
+  // Admin: class progress
+  'classProgress.description':
+    'Lessons completed, drill scores, review streaks and last activity for every student.',
+  'classProgress.course': 'Course',
+  'classProgress.show': 'Show',
+  'classProgress.download': 'Download CSV',
+  'classProgress.noStudents': 'No student accounts yet. Invite students from',
+  'classProgress.student': 'Student',
+  'classProgress.ofTotal': 'of {total}',
+  'classProgress.drills': 'Drills',
+  'classProgress.drillScore.one': '{score}/{total} in {count} drill',
+  'classProgress.drillScore.other': '{score}/{total} in {count} drills',
+  'classProgress.flashcards': 'Flashcards',
+  'classProgress.streak': 'Review Streak',
+  'classProgress.streakDays.one': '{count} day',
+  'classProgress.streakDays.other': '{count} days',
+  'classProgress.longestStreak': 'best {count}',
+  'classProgress.lastActive': 'Last Active',
+  'classProgress.never': 'Never',
+
+  // Admin: audit log
+  'audit.description': 'Sign-in activity for the last 90 days, newest first.',
+  'audit.empty': 'No events recorded yet.',
+  'audit.time': 'Time',
+  'audit.event': 'Event',
+  'audit.ip': 'IP Address',
+  'audit.event.login.success': 'Login',
+  'audit.event.login.failure': 'Failed login',
+  'audit.event.login.locked': 'Login blocked (rate limit)',
+  'audit.event.logout': 'Logout',
+  'audit.event.logout.all': 'Logout (all devices)',
+  'audit.event.setup.success': 'Admin setup',
+  'audit.event.setup.failure': 'Failed admin setup',
+  'audit.pages': 'Audit log pages',
+  'audit.latest': '← Latest events',
+  'audit.older': 'Older events →',
+};
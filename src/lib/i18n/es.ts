@@ -0,0 +1,461 @@
+/**
+ * Spanish Messages
+ *
+ * Interface for immersion: same keys and placeholders as en.ts.
+ */
+
+import type { Messages } from './index';
+
+export const es: Messages = {
+  // Layout and header
+  'site.skipToContent': 'Saltar al contenido principal',
+  'nav.label': 'Navegación del sitio',
+  'nav.main': 'Navegación principal',
+  'nav.drawer': 'Menú de navegación',
+  'nav.drawerTitle': 'Navegación',
+  'nav.openMenu': 'Abrir el menú de navegación',
+  'nav.closeMenu': 'Cerrar el menú de navegación',
+  'nav.toggleSidebar': 'Mostrar u ocultar la barra lateral',
+  'nav.resize': 'Cambiar el ancho de la barra lateral',
+
+  // Table of contents
+  'toc.label': 'Índice',
+  'toc.open': 'Abrir el índice',
+  'toc.close': 'Cerrar el índice',
+  'toc.onThisPage': 'En esta página',
+  'toc.contents': 'Contenido',
+  'toc.empty': 'Esta página no tiene secciones',
+
+  // Sidebar
+  'nav.home': 'Inicio',
+  'nav.about': 'Acerca de',
+  'nav.review': 'Repaso con tarjetas',
+  'nav.placement': 'Prueba de nivel',
+  'nav.offline': 'Lectura sin conexión',
+  'nav.account': 'Cuenta',
+  'nav.logout': 'Cerrar sesión',
+  'nav.frontMatter': 'Preliminares',
+  'nav.appendices': 'Apéndices',
+  'nav.admin': 'Administración',
+  'nav.classProgress': 'Progreso de la clase',
+  'nav.students': 'Estudiantes',
+  'nav.auditLog': 'Registro de auditoría',
+  'nav.searchPlaceholder': 'Buscar lecciones... (pulsa /)',
+  'nav.searchLabel': 'Buscar en la navegación',
+  'nav.noMatches': 'Ninguna lección coincide',
+  'nav.sectionProgress': 'Lecciones completadas de {section}',
+  'nav.sectionItems': 'Elementos de navegación de {section}',
+
+  // Lesson sections (LESSON_SECTIONS)
+  'section.Foundation': 'Fundamentos',
+  'section.Intermediate': 'Intermedio',
+  'section.Advanced': 'Avanzado',
+  'section.lessons': 'Lecciones de {section}',
+
+  // Theme and language toggles
+  'theme.toggle': 'Cambiar el modo oscuro',
+  'theme.dark': 'Modo oscuro',
+  'theme.light': 'Modo claro',
+  'locale.switchTo': 'Mostrar la interfaz en {language}',
+
+  // Search
+  'search.placeholder': 'Buscar...',
+  'search.label': 'Buscar',
+  'search.unavailable': 'La búsqueda no está disponible en este momento',
+  'search.noResults': 'Sin resultados en el contenido de las lecciones',
+  'search.heading': 'En el contenido de las lecciones',
+  'search.kind.lesson': 'Lección',
+  'search.kind.vocabulary': 'Vocabulario',
+  'search.kind.verb': 'Verbo',
+  'search.kind.page': 'Página',
+
+  // Command palette
+  'palette.label': 'Paleta de comandos',
+  'palette.placeholder': 'Ve a una lección, un título o una palabra, o ejecuta un comando...',
+  'palette.empty': 'No hay coincidencias',
+  'palette.hint': '↑↓ para moverte · Intro para abrir · Esc para cerrar',
+  'palette.group.recent': 'Recientes',
+  'palette.group.action': 'Acciones',
+  'palette.group.heading': 'En esta página',
+  'palette.group.lesson': 'Lecciones',
+  'palette.group.page': 'Páginas',
+  'palette.group.vocabulary': 'Vocabulario',
+  'palette.action.darkMode': 'Cambiar al modo oscuro',
+  'palette.action.lightMode': 'Cambiar al modo claro',
+  'palette.action.review': 'Repasar las tarjetas pendientes',
+  'palette.action.complete': 'Marcar esta lección como completada',
+  'palette.action.incomplete': 'Marcar esta lección como no completada',
+  'palette.action.reviewLesson': 'Repasar las palabras de esta lección',
+
+  // Course home
+  'course.continue': 'Continúa donde te quedaste',
+  'course.percentRead': '{percent}% leído',
+  'course.upNext': 'Sigue después de tu última lección completada',
+  'course.otherCourses': 'Otros cursos',
+
+  // Lesson pages
+  'lesson.vocabulary': 'Vocabulario',
+  'lesson.dialogue': 'Diálogo',
+  'lesson.idioms': 'Modismos y expresiones',
+  'lesson.culturalNotes': 'Notas culturales',
+  'lesson.drills': 'Ejercicios de práctica',
+  'lesson.download': 'Descargar:',
+  'lesson.downloadAll': 'Todas las lecciones ({format})',
+  'lesson.reviewFlashcards': 'Repasa estas palabras con tarjetas →',
+  'lesson.literal': '(lit. “{literal}”)',
+  'lesson.readMore': 'Leer más →',
+  'lesson.grammarTopics': 'Temas de gramática:',
+  'lesson.verbs': 'Verbos:',
+  'lesson.markComplete': 'Marcar como completada',
+  'lesson.completed': '✓ Completada',
+  'lesson.testedOut': '✓ Convalidada',
+  'lesson.printHandout': 'Material imprimible de {section}',
+  'lesson.navigation': 'Navegación entre lecciones',
+  'lesson.previous': 'Anterior',
+  'lesson.next': 'Siguiente',
+
+  // Vocabulary table
+  'vocabulary.spanish': 'Español',
+  'vocabulary.ipa': 'AFI',
+  'vocabulary.english': 'Inglés',
+  'vocabulary.notes': 'Notas',
+
+  // IPA symbols and chart
+  'ipa.seeChart': 'Ver en la tabla del AFI →',
+  'ipa.consonantChart': 'Consonantes por punto y modo de articulación',
+  'ipa.vowelChart': 'Vocales por altura y posición de la lengua',
+  'ipa.diacritics': 'Diacríticos y suprasegmentos',
+  'ipa.choose': 'Elige un símbolo para ver cómo se pronuncia.',
+  'ipa.approximation': 'Sonido más parecido en inglés:',
+  'ipa.examples': 'Ejemplos',
+  'ipa.lessons': 'Aparece en:',
+  'ipa.noLessons': 'Todavía no aparece en las lecciones de este curso.',
+  'ipa.place.bilabial': 'Bilabial',
+  'ipa.place.labiodental': 'Labiodental',
+  'ipa.place.dental': 'Dental',
+  'ipa.place.alveolar': 'Alveolar',
+  'ipa.place.postalveolar': 'Postalveolar',
+  'ipa.place.palatal': 'Palatal',
+  'ipa.place.velar': 'Velar',
+  'ipa.manner.stop': 'Oclusiva',
+  'ipa.manner.fricative': 'Fricativa',
+  'ipa.manner.affricate': 'Africada',
+  'ipa.manner.nasal': 'Nasal',
+  'ipa.manner.tap': 'Vibrante simple',
+  'ipa.manner.trill': 'Vibrante múltiple',
+  'ipa.manner.lateral': 'Lateral',
+  'ipa.manner.approximant': 'Aproximante',
+  'ipa.height.close': 'Cerrada',
+  'ipa.height.mid': 'Media',
+  'ipa.height.open': 'Abierta',
+  'ipa.backness.front': 'Anterior',
+  'ipa.backness.central': 'Central',
+  'ipa.backness.back': 'Posterior',
+
+  // Pronunciation and dialogues
+  'audio.play': 'Escuchar la pronunciación',
+  'audio.playText': 'Escuchar la pronunciación de “{text}”',
+  'audio.slow': 'Reproducción lenta',
+  'dialogue.hideEnglish': 'Ocultar todo el inglés',
+  'dialogue.hideSpanish': 'Ocultar todo el español',
+
+  // Registers (REGISTERS)
+  'register.formal': 'Formal',
+  'register.neutral': 'Neutro',
+  'register.informal': 'Informal',
+  'register.slang': 'Jerga',
+  'register.vulgar': 'Vulgar',
+
+  // Practice drills
+  'drills.title': 'Ejercicio {number}: {title}',
+  'drills.type.translation': 'Traducción',
+  'drills.type.fill-blank': 'Completa el espacio',
+  'drills.type.multiple-choice': 'Opción múltiple',
+  'drills.type.matching': 'Relaciona',
+  'drills.missingWord': 'Palabra que falta: {prompt}',
+  'drills.choose': 'Elige…',
+  'drills.check': 'Revisar respuestas',
+  'drills.reset': 'Intentar de nuevo',
+  'drills.questions.one': '{count} pregunta',
+  'drills.questions.other': '{count} preguntas',
+  'drills.answerKey': 'Respuestas',
+  'drills.score': '{score}/{total} correctas',
+  'drills.lastTime': 'La última vez: {score}',
+  'drills.summary': 'Tus resultados más recientes: {score} en {done} de {count} ejercicios.',
+  'drills.correct': '✓ Correcto',
+  'drills.accents': '✓ Cuidado con los acentos: {answer}',
+  'drills.answer': '✗ Respuesta: {answer}',
+
+  // Flashcard review
+  'review.description':
+    'Practica el vocabulario de las lecciones. Las tarjetas que conoces bien vuelven con menos frecuencia.',
+  'review.chooseDeck': 'Elige un mazo',
+  'review.deck': 'Mazo',
+  'review.deck.due': 'Todo lo pendiente de hoy',
+  'review.deck.sections': 'Secciones',
+  'review.deck.lessons': 'Lecciones',
+  'review.deck.counts': '{deck} ({due} pendientes, {new} nuevas)',
+  'review.directions': 'Tarjetas',
+  'review.direction.es-en': 'Español → inglés',
+  'review.direction.en-es': 'Inglés → español',
+  'review.direction.ipa-es': 'AFI → español',
+  'review.start': 'Empezar el repaso',
+  'review.loading': 'Cargando tu progreso…',
+  'review.noDirections': 'Elige al menos una dirección de tarjetas.',
+  'review.nothingDue': 'Hoy no hay nada que repasar en este mazo. ¡Buen trabajo!',
+  'review.queue.one': '{count} tarjeta en esta sesión.',
+  'review.queue.other': '{count} tarjetas en esta sesión.',
+  'review.sync.account': 'Tu progreso se guarda en tu cuenta.',
+  'review.sync.device':
+    'Sin conexión: tu progreso se guarda en este dispositivo y se sincronizará cuando te vuelvas a conectar.',
+  'review.session': 'Sesión de repaso',
+  'review.prompt.es-en': '¿Qué significa esto?',
+  'review.prompt.en-es': '¿Cómo se dice esto en español?',
+  'review.prompt.ipa-es': '¿Qué palabra es esta?',
+  'review.showAnswer': 'Mostrar la respuesta',
+  'review.grade.again': 'Otra vez',
+  'review.grade.hard': 'Difícil',
+  'review.grade.good': 'Bien',
+  'review.grade.easy': 'Fácil',
+  'review.interval.days.one': '{count} día',
+  'review.interval.days.other': '{count} días',
+  'review.interval.months.one': '{count} mes',
+  'review.interval.months.other': '{count} meses',
+  'review.interval.years.one': '{count} año',
+  'review.interval.years.other': '{count} años',
+  'review.end': 'Terminar la sesión',
+  'review.summary': 'Resumen de la sesión',
+  'review.noneReviewed': 'No repasaste ninguna tarjeta.',
+  'review.reviewed.one': 'Repasaste {count} tarjeta.',
+  'review.reviewed.other': 'Repasaste {count} tarjetas.',
+  'review.reviewedAgain.one': 'Repasaste {count} tarjeta, {again} de ellas otra vez.',
+  'review.reviewedAgain.other': 'Repasaste {count} tarjetas, {again} de ellas otra vez.',
+  'review.backToDecks': 'Volver a los mazos',
+
+  // Placement test
+  'placement.description': 'Descubre por dónde empezar el curso.',
+  'placement.about': 'Sobre la prueba de nivel',
+  'placement.intro':
+    '¿No sabes por dónde empezar {course}? Responde hasta {count} preguntas por sección, empezando por la primera. Acierta el {percent}% de una sección para pasar a la siguiente.',
+  'placement.note':
+    'Algunas preguntas te piden que digas qué tan bien conoces un tema de gramática: responde con sinceridad, solo sirve para decidir dónde empiezas.',
+  'placement.start': 'Empezar la prueba',
+  'placement.question': 'Pregunta de la prueba de nivel',
+  'placement.source.vocabulary': 'Vocabulario',
+  'placement.source.grammar': 'Gramática',
+  'placement.source.question': 'Pregunta',
+  'placement.prompt.vocabulary': '¿Qué significa “{word}”?',
+  'placement.prompt.grammar': '¿Qué tan bien conoces esto? {topic}',
+  'placement.grammar.known': 'Sé usarlo',
+  'placement.grammar.seen': 'Lo he visto, pero no estoy seguro',
+  'placement.grammar.new': 'Es nuevo para mí',
+  'placement.result': 'Resultado de la prueba de nivel',
+  'placement.section': 'Sección',
+  'placement.score': 'Puntuación',
+  'placement.scoreOf': '{percent}% de {count}',
+  'placement.outcome': 'Resultado',
+  'placement.outcome.passed': 'Aprobada',
+  'placement.outcome.failed': 'Empieza aquí',
+  'placement.outcome.untested': 'Sin evaluar',
+  'placement.recommended': 'Te recomendamos empezar con “{lesson}”.',
+  'placement.noLessons': 'Este curso todavía no tiene lecciones.',
+  'placement.goToLesson': 'Ir a la lección',
+  'placement.testOut.one': 'Marcar {count} lección anterior como convalidada',
+  'placement.testOut.other': 'Marcar las {count} lecciones anteriores como convalidadas',
+  'placement.testedOut': 'Listo. Ya aparecen marcadas en la barra lateral.',
+  'placement.saveFailed': 'No se pudo guardar tu progreso. Inténtalo de nuevo.',
+  'placement.retake': 'Repetir la prueba',
+
+  // Appendix listings
+  'listing.empty': 'Nada coincide con estos filtros.',
+  'listing.allRegisters': 'Todos los registros',
+  'listing.allRegions': 'Todas las regiones',
+  'listing.count.one': '{count} entrada',
+  'listing.count.other': '{count} entradas',
+  'listing.countFiltered': '{visible} de {total} entradas',
+  'listing.see': 'Ver:',
+
+  // Appendices
+  'glossary.title': 'Glosario español-inglés',
+  'glossary.description':
+    'Todo el vocabulario que presentan las lecciones, en orden alfabético del español.',
+  'glossary.jumpToLetter': 'Ir a la letra',
+  'glossary.empty': 'Todavía no se ha agregado vocabulario a las lecciones.',
+  'idioms.description':
+    'Modismos mexicanos cotidianos con su significado literal y real, registro y región.',
+  'idioms.empty': 'Todavía no se han agregado modismos.',
+  'idioms.search': 'Buscar modismos',
+  'idioms.literally': 'Literalmente: “{literal}”',
+  'culturalNotes.title': 'Compendio de notas culturales',
+  'culturalNotes.description':
+    'Costumbres, etiqueta y cultura cotidiana que moldean cómo se habla el español en México.',
+  'culturalNotes.empty': 'Todavía no se han agregado notas culturales.',
+  'culturalNotes.search': 'Buscar notas culturales',
+  'grammar.title': 'Referencia gramatical',
+  'grammar.description':
+    'Todos los temas de gramática del curso, con las lecciones que los enseñan.',
+  'grammar.empty': 'Todavía no se han agregado temas de gramática a las lecciones.',
+  'grammar.back': '← Referencia gramatical',
+  'grammar.topicDescription.one': 'Tema de gramática que se ve en {count} lección.',
+  'grammar.topicDescription.other': 'Tema de gramática que se ve en {count} lecciones.',
+  'grammar.coveredIn.one': 'Se ve en {count} lección:',
+  'grammar.coveredIn.other': 'Se ve en {count} lecciones:',
+  'verbs.title': 'Tablas de conjugación',
+  'verbs.description':
+    'Conjugaciones completas de los verbos que se usan en este curso, según el uso mexicano.',
+  'verbs.ustedesTitle': 'Ustedes, no vosotros',
+  'verbs.ustedes':
+    'En el español de México se usa ustedes para todo “you” plural, formal o informal. Las formas de vosotros que se enseñan en España no se usan y no aparecen en estas tablas. Los nombres de los tiempos siguen la terminología de las escuelas mexicanas, con su equivalente en inglés.',
+  'verbs.empty': 'Todavía no se han agregado verbos.',
+  'verbs.regularity.regular': 'Regular',
+  'verbs.regularity.stem-changing': 'Con cambio de raíz',
+  'verbs.regularity.irregular': 'Irregular',
+  'verbs.gerund': 'Gerundio:',
+  'verbs.participle': 'Participio:',
+  'verbs.person': 'Persona',
+
+  // Offline reading
+  'offline.save': 'Guardar sin conexión',
+  'offline.remove': 'Quitar del dispositivo',
+  'offline.removed': 'Se quitó de este dispositivo.',
+  'offline.saving': 'Guardando {done} de {total}…',
+  'offline.saved': 'Listo. Esta sección está disponible sin conexión.',
+  'offline.failed':
+    'No se pudieron guardar {failed} de {total} páginas. Revisa tu conexión e inténtalo de nuevo.',
+  'offline.error': 'Algo salió mal. Recarga la página e inténtalo de nuevo.',
+  'offline.description':
+    'Guarda secciones del curso en este dispositivo para estudiar sin conexión.',
+  'offline.general': 'General',
+  'offline.youAreOffline': 'No tienes conexión',
+  'offline.notSaved':
+    'La página que pediste no está guardada en este dispositivo. Las páginas marcadas abajo sí están disponibles.',
+  'offline.intro':
+    'Cada página que abres se guarda en este dispositivo, así que puedes volver a ella sin conexión. Para estudiar por adelantado, guarda una sección completa abajo. El progreso que hagas sin conexión se envía a tu cuenta cuando vuelvas a estar en línea.',
+  'offline.unavailable':
+    'La lectura sin conexión no está disponible en este navegador, o hay que recargar la página una vez primero.',
+  'offline.savedMark': '✓ guardada',
+
+  // Print documents
+  'print.back': '← Volver al curso',
+  'print.print': 'Imprimir o guardar como PDF',
+  'print.description': 'Todas las lecciones de {section} en un solo documento imprimible',
+  'print.lessonCount.one': '{count} lección',
+  'print.lessonCount.other': '{count} lecciones',
+  'print.answerKey': 'Respuestas',
+
+  // Sign-in
+  'login.title': 'Iniciar sesión',
+  'login.heading': '¡Bienvenido!',
+  'login.email': 'Correo electrónico',
+  'login.password': 'Contraseña',
+  'login.submit': 'Entrar',
+  'login.noAccount': '¿Aún no tienes cuenta? Pide a tu maestro un enlace de invitación.',
+  'login.invalid': 'Correo o contraseña incorrectos',
+  'login.invalidLocked':
+    'Correo o contraseña incorrectos - demasiados intentos fallidos, inténtalo de nuevo en {time}',
+  'login.locked': 'Demasiados intentos fallidos - inténtalo de nuevo en {time}',
+  'login.error': 'Ocurrió un error - inténtalo de nuevo',
+  'login.serverError': 'Error de configuración del servidor - contacta al administrador',
+  'time.seconds.one': '{count} segundo',
+  'time.seconds.other': '{count} segundos',
+  'time.minutes.one': '{count} minuto',
+  'time.minutes.other': '{count} minutos',
+
+  // Creating an account (setup and invites)
+  'signup.name': 'Tu nombre',
+  'signup.confirmPassword': 'Confirma la contraseña',
+  'signup.nameRequired': 'Escribe tu nombre',
+  'signup.invalidEmail': 'Escribe un correo electrónico válido',
+  'signup.passwordTooShort': 'La contraseña debe tener al menos {min} caracteres',
+  'signup.passwordMismatch': 'Las contraseñas no coinciden',
+  'setup.title': 'Configuración',
+  'setup.heading': 'Configuración inicial',
+  'setup.notice':
+    'Crea la cuenta de administrador. Necesitarás el código de acceso del sitio, que está en la configuración del despliegue.',
+  'setup.code': 'Código de acceso',
+  'setup.invalidCode': 'Código de acceso incorrecto',
+  'setup.submit': 'Crear la cuenta de administrador',
+  'invite.title': 'Crear cuenta',
+  'invite.heading': '¡Bienvenido!',
+  'invite.accountExists': 'Ya existe una cuenta con este correo - inicia sesión',
+  'invite.submit': 'Crear cuenta',
+  'invite.invalid':
+    'Este enlace de invitación no es válido o ya venció. Pide a tu maestro uno nuevo.',
+  'invite.backToLogin': 'Volver a iniciar sesión',
+
+  // Account page
+  'account.details': 'Datos',
+  'account.name': 'Nombre',
+  'account.email': 'Correo electrónico',
+  'account.role': 'Rol',
+  'account.memberSince': 'Miembro desde',
+  'account.preferences': 'Preferencias',
+  'account.preferencesNote':
+    'El modo oscuro, el ancho y las secciones abiertas de la barra lateral, las direcciones de las tarjetas y la pronunciación lenta se guardan en tu cuenta, así que te acompañan de un dispositivo a otro. Desactiva esta opción para que este dispositivo guarde sus propios ajustes.',
+  'account.syncPreferences': 'Sincronizar las preferencias en este dispositivo',
+  'account.sessions': 'Sesiones',
+  'account.sessionsNote':
+    'Tu sesión sigue abierta en cada dispositivo hasta {absoluteDays} días, o hasta que pasen {idleDays} días sin que entres. Si iniciaste sesión en un dispositivo compartido o perdido, cierra todas las sesiones aquí abajo. También tendrás que volver a iniciar sesión aquí.',
+  'account.logoutAll': 'Cerrar sesión en todos los dispositivos',
+  'role.admin': 'Administrador',
+  'role.student': 'Estudiante',
+
+  // Admin: students
+  'students.description': 'Invita estudiantes y decide quién tiene acceso al curso.',
+  'students.invite': 'Invitar a un estudiante',
+  'students.createInvite': 'Crear invitación',
+  'students.pendingInvites': 'Invitaciones pendientes',
+  'students.noInvites': 'No hay invitaciones pendientes.',
+  'students.sent': 'Enviada',
+  'students.link': 'Enlace',
+  'students.inviteLink': 'Enlace de invitación',
+  'students.accounts': 'Cuentas',
+  'students.joined': 'Alta',
+  'students.revoke': 'Revocar',
+  'students.confirmRevoke': '¿Revocar el acceso de {email}?',
+  'students.hasAccount': '{email} ya tiene una cuenta',
+  'students.inviteCreated':
+    'Se creó la invitación para {email}. Envíale este enlace (válido por 7 días):',
+  'students.inviteRevoked': 'Invitación revocada',
+  'students.noSuchAccount': 'Esa cuenta ya no existe',
+  'students.revokeSelf': 'No puedes revocar tu propia cuenta',
+  'students.revoked': 'Se revocó el acceso de {name} ({email})',
+
+  // Admin: class progress
+  'classProgress.description':
+    'Lecciones completadas, resultados de los ejercicios, rachas de repaso y última actividad de cada estudiante.',
+  'classProgress.course': 'Curso',
+  'classProgress.show': 'Mostrar',
+  'classProgress.download': 'Descargar CSV',
+  'classProgress.noStudents': 'Todavía no hay cuentas de estudiantes. Invita estudiantes desde',
+  'classProgress.student': 'Estudiante',
+  'classProgress.ofTotal': 'de {total}',
+  'classProgress.drills': 'Ejercicios',
+  'classProgress.drillScore.one': '{score}/{total} en {count} ejercicio',
+  'classProgress.drillScore.other': '{score}/{total} en {count} ejercicios',
+  'classProgress.flashcards': 'Tarjetas',
+  'classProgress.streak': 'Racha de repaso',
+  'classProgress.streakDays.one': '{count} día',
+  'classProgress.streakDays.other': '{count} días',
+  'classProgress.longestStreak': 'récord: {count}',
+  'classProgress.lastActive': 'Última actividad',
+  'classProgress.never': 'Nunca',
+
+  // Admin: audit log
+  'audit.description':
+    'Actividad de inicio de sesión de los últimos 90 días, de la más reciente a la más antigua.',
+  'audit.empty': 'Todavía no hay eventos registrados.',
+  'audit.time': 'Hora',
+  'audit.event': 'Evento',
+  'audit.ip': 'Dirección IP',
+  'audit.event.login.success': 'Inicio de sesión',
+  'audit.event.login.failure': 'Inicio de sesión fallido',
+  'audit.event.login.locked': 'Inicio de sesión bloqueado (límite de intentos)',
+  'audit.event.logout': 'Cierre de sesión',
+  'audit.event.logout.all': 'Cierre de sesión (todos los dispositivos)',
+  'audit.event.setup.success': 'Configuración del administrador',
+  'audit.event.setup.failure': 'Configuración del administrador fallida',
+  'audit.pages': 'Páginas del registro de auditoría',
+  'audit.latest': '← Eventos más recientes',
+  'audit.older': 'Eventos anteriores →',
+};
@@ -0,0 +1,101 @@
+/**
+ * Interface Messages
+ *
+ * Typed message catalog for the interface:
+ * - en.ts defines every key; other locales are typed `Messages`, so a
+ *   missing key fails the type check
+ * - `findCatalogIssues()` repeats the check at build time, and also
+ *   catches placeholders that differ from English (message-catalog integration)
+ * - `createTranslator(locale)` returns `t()` and `plural()` for one locale;
+ *   server code gets the locale from `Astro.locals.locale`, client code
+ *   from client.ts
+ */
+
+import { en } from './en';
+import { es } from './es';
+import { DEFAULT_LOCALE, LOCALES, type Locale } from './locales';
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+/** Keys with `.one` / `.other` forms, without the suffix */
+export type PluralKey = MessageKey extends infer Key
+  ? Key extends `${infer Base}.one`
+    ? Base
+    : never
+  : never;
+
+export interface Translator {
+  locale: Locale;
+  t(key: MessageKey, params?: MessageParams): string;
+  /** The plural form for `count`, with `{count}` filled in */
+  plural(key: PluralKey, count: number, params?: MessageParams): string;
+}
+
+const CATALOGS: Record<Locale, Messages> = { en, es };
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+function format(message: string, params: MessageParams = {}): string {
+  return message.replace(PLACEHOLDER, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const messages = CATALOGS[locale];
+  const pluralRules = new Intl.PluralRules(locale);
+
+  // English fills in for keys a catalog lacks at runtime (the build check reports them)
+  const t = (key: MessageKey, params?: MessageParams) =>
+    format(messages[key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key, params);
+
+  return {
+    locale,
+    t,
+    plural(key, count, params) {
+      const form = pluralRules.select(count) === 'one' ? 'one' : 'other';
+      return t(`${key}.${form}` as MessageKey, { ...params, count });
+    },
+  };
+}
+
+export interface CatalogIssue {
+  locale: Locale;
+  key: string;
+  message: string;
+}
+
+function placeholders(message: string): string[] {
+  return [...message.matchAll(PLACEHOLDER)].map((match) => match[1]).sort();
+}
+
+/** Keys missing from or unknown to each catalog, and placeholder mismatches */
+export function findCatalogIssues(): CatalogIssue[] {
+  const reference: Record<string, string> = CATALOGS[DEFAULT_LOCALE];
+  const issues: CatalogIssue[] = [];
+
+  for (const locale of LOCALES.filter((other) => other !== DEFAULT_LOCALE)) {
+    const messages: Record<string, string | undefined> = CATALOGS[locale];
+
+    for (const [key, english] of Object.entries(reference)) {
+      const message = messages[key];
+      if (message === undefined) {
+        issues.push({ locale, key, message: 'missing' });
+      } else if (placeholders(message).join() !== placeholders(english).join()) {
+        const expected = placeholders(english).map((name) => `{${name}}`);
+        issues.push({
+          locale,
+          key,
+          message: `placeholders differ from English (${expected.join(', ') || 'none'})`,
+        });
+      }
+    }
+    for (const key of Object.keys(messages)) {
+      if (!(key in reference)) issues.push({ locale, key, message: 'not in en.ts' });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,33 @@
+/**
+ * Interface Locales
+ *
+ * Languages the interface (navigation, buttons, labels) can be shown in.
+ * Lesson content is not translated. The choice is kept in a cookie so
+ * server-rendered pages use it; the toggle is LocaleToggle.astro.
+ */
+
+import type { AstroCookies } from 'astro';
+
+export const LOCALES = ['en', 'es'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Readable by client scripts, which set it from the toggle */
+export const LOCALE_COOKIE = 'locale';
+export const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/** Each language named in itself, as shown on the toggle */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return (LOCALES as readonly unknown[]).includes(value);
+}
+
+export function readLocale(cookies: AstroCookies): Locale {
+  const value = cookies.get(LOCALE_COOKIE)?.value;
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
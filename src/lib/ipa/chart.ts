@@ -0,0 +1,54 @@
+/**
+ * IPA Chart
+ *
+ * Client side of the IPA guide charts (components/IpaChart.astro):
+ * - Choosing a symbol shows its details under the chart and puts its
+ *   anchor (#ipa-<id>) in the address bar
+ * - Opening the page at an anchor, from a transcription's tooltip for
+ *   example, selects that symbol
+ */
+
+let listening = false;
+
+function select(chart: HTMLElement, id: string): void {
+  chart.querySelectorAll<HTMLElement>('[data-ipa-select]').forEach((button) => {
+    button.setAttribute('aria-pressed', String(button.dataset.ipaSelect === id));
+  });
+  chart.querySelectorAll<HTMLElement>('[data-ipa-detail]').forEach((detail) => {
+    detail.hidden = detail.dataset.ipaDetail !== id;
+  });
+  const hint = chart.querySelector<HTMLElement>('[data-ipa-hint]');
+  if (hint) hint.hidden = true;
+}
+
+function selectFromHash(): void {
+  const id = window.location.hash.match(/^#ipa-(.+)$/)?.[1];
+  const button = id ? document.getElementById(`ipa-${decodeURIComponent(id)}`) : null;
+  const chart = button?.closest<HTMLElement>('[data-ipa-chart]');
+  if (!button || !chart) return;
+
+  select(chart, button.dataset.ipaSelect ?? '');
+  button.focus({ preventScroll: true });
+}
+
+export function initIpaChart(): void {
+  document.querySelectorAll<HTMLElement>('[data-ipa-chart]').forEach((chart) => {
+    if (chart.dataset.initialized) return;
+    chart.dataset.initialized = 'true';
+
+    chart.querySelectorAll<HTMLElement>('[data-ipa-select]').forEach((button) => {
+      button.addEventListener('click', () => {
+        const id = button.dataset.ipaSelect ?? '';
+        select(chart, id);
+        history.replaceState(history.state, '', `#${button.id}`);
+      });
+    });
+  });
+
+  selectFromHash();
+
+  if (!listening) {
+    listening = true;
+    window.addEventListener('hashchange', selectFromHash);
+  }
+}
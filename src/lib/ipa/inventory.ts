@@ -0,0 +1,580 @@
+/**
+ * IPA Inventory
+ *
+ * Every symbol lesson transcriptions may use, with how to produce it and
+ * example words. The IPA guide (src/pages/front-matter/ipa-guide.astro)
+ * draws its charts from this list, the content schema accepts only these
+ * symbols (symbols.ts), and transcriptions in lessons link each symbol
+ * back to its entry.
+ * - Consonants are placed by place and manner of articulation
+ * - Vowels by height and backness
+ * - Diacritics are either marks of their own (stress, syllable break,
+ *   length) or combine with the symbol before them
+ *
+ * Example transcriptions may only use symbols from this list.
+ */
+
+export const PLACES = [
+  'bilabial',
+  'labiodental',
+  'dental',
+  'alveolar',
+  'postalveolar',
+  'palatal',
+  'velar',
+] as const;
+export type Place = (typeof PLACES)[number];
+
+export const MANNERS = [
+  'stop',
+  'fricative',
+  'affricate',
+  'nasal',
+  'tap',
+  'trill',
+  'lateral',
+  'approximant',
+] as const;
+export type Manner = (typeof MANNERS)[number];
+
+export const HEIGHTS = ['close', 'mid', 'open'] as const;
+export type Height = (typeof HEIGHTS)[number];
+
+export const BACKNESSES = ['front', 'central', 'back'] as const;
+export type Backness = (typeof BACKNESSES)[number];
+
+export interface IpaExample {
+  spanish: string;
+  ipa: string;
+  english: string;
+}
+
+interface IpaSymbolBase {
+  /** ASCII id, used in anchors (#ipa-<id>) and markup */
+  id: string;
+  symbol: string;
+  /** Short articulatory name, e.g. "Voiced bilabial fricative" */
+  name: string;
+  /** How to produce the sound, and where it occurs */
+  description: string;
+  /** Nearest English sound, when there is one */
+  approximation?: string;
+  examples: IpaExample[];
+  /** Recording of the sound under /audio/ (optional) */
+  audio?: string;
+}
+
+export interface IpaConsonant extends IpaSymbolBase {
+  category: 'consonant';
+  place: Place;
+  manner: Manner;
+  voiced: boolean;
+}
+
+export interface IpaVowel extends IpaSymbolBase {
+  category: 'vowel';
+  height: Height;
+  backness: Backness;
+}
+
+export interface IpaDiacritic extends IpaSymbolBase {
+  category: 'diacritic';
+  /** Combining mark, written over or under the symbol before it */
+  combining: boolean;
+}
+
+export type IpaSymbol = IpaConsonant | IpaVowel | IpaDiacritic;
+
+export const IPA_INVENTORY: IpaSymbol[] = [
+  // Stops
+  {
+    id: 'p',
+    symbol: 'p',
+    category: 'consonant',
+    place: 'bilabial',
+    manner: 'stop',
+    voiced: false,
+    name: 'Voiceless bilabial stop',
+    description: 'Both lips close and release without a puff of air.',
+    approximation: '"p" in "spin" (no puff of air)',
+    examples: [{ spanish: 'padre', ipa: '[ˈpa.ðɾe]', english: 'father' }],
+  },
+  {
+    id: 'b',
+    symbol: 'b',
+    category: 'consonant',
+    place: 'bilabial',
+    manner: 'stop',
+    voiced: true,
+    name: 'Voiced bilabial stop',
+    description:
+      'Both lips close fully. Used after a pause and after m or n; elsewhere b and v soften to [β].',
+    approximation: '"b" in "boy"',
+    examples: [
+      { spanish: 'bueno', ipa: '[ˈbwe.no]', english: 'good' },
+      { spanish: 'vaso', ipa: '[ˈba.so]', english: 'glass' },
+    ],
+  },
+  {
+    id: 't',
+    symbol: 't',
+    category: 'consonant',
+    place: 'dental',
+    manner: 'stop',
+    voiced: false,
+    name: 'Voiceless dental stop',
+    description:
+      'The tongue tip touches the back of the upper teeth, not the ridge behind them, with no puff of air.',
+    approximation: '"t" in "stop"',
+    examples: [{ spanish: 'taco', ipa: '[ˈta.ko]', english: 'taco' }],
+  },
+  {
+    id: 'd',
+    symbol: 'd',
+    category: 'consonant',
+    place: 'dental',
+    manner: 'stop',
+    voiced: true,
+    name: 'Voiced dental stop',
+    description:
+      'The tongue tip touches the back of the upper teeth. Used after a pause and after n or l; elsewhere d softens to [ð].',
+    approximation: '"d" in "dog", with the tongue on the teeth',
+    examples: [{ spanish: 'dónde', ipa: '[ˈdon.de]', english: 'where' }],
+  },
+  {
+    id: 'k',
+    symbol: 'k',
+    category: 'consonant',
+    place: 'velar',
+    manner: 'stop',
+    voiced: false,
+    name: 'Voiceless velar stop',
+    description: 'The back of the tongue closes against the soft palate, with no puff of air.',
+    approximation: '"k" in "skin"',
+    examples: [
+      { spanish: 'casa', ipa: '[ˈka.sa]', english: 'house' },
+      { spanish: 'queso', ipa: '[ˈke.so]', english: 'cheese' },
+    ],
+  },
+  {
+    id: 'g',
+    symbol: 'g',
+    category: 'consonant',
+    place: 'velar',
+    manner: 'stop',
+    voiced: true,
+    name: 'Voiced velar stop',
+    description:
+      'The back of the tongue closes against the soft palate. Used after a pause and after n; elsewhere g softens to [ɣ].',
+    approximation: '"g" in "go"',
+    examples: [{ spanish: 'tengo', ipa: '[ˈteŋ.go]', english: 'I have' }],
+  },
+
+  // Fricatives
+  {
+    id: 'f',
+    symbol: 'f',
+    category: 'consonant',
+    place: 'labiodental',
+    manner: 'fricative',
+    voiced: false,
+    name: 'Voiceless labiodental fricative',
+    description: 'The lower lip rests against the upper teeth and air hisses through.',
+    approximation: '"f" in "fun"',
+    examples: [{ spanish: 'fuego', ipa: '[ˈfwe.ɣo]', english: 'fire' }],
+  },
+  {
+    id: 'beta',
+    symbol: 'β',
+    category: 'consonant',
+    place: 'bilabial',
+    manner: 'fricative',
+    voiced: true,
+    name: 'Voiced bilabial fricative',
+    description:
+      'The soft b: the lips come close together without touching. How b and v sound between vowels and after most consonants.',
+    approximation: 'Between "b" and "v", with both lips',
+    examples: [
+      { spanish: 'cabeza', ipa: '[ka.ˈβe.sa]', english: 'head' },
+      { spanish: 'palabra', ipa: '[pa.ˈla.βɾa]', english: 'word' },
+    ],
+  },
+  {
+    id: 's',
+    symbol: 's',
+    category: 'consonant',
+    place: 'alveolar',
+    manner: 'fricative',
+    voiced: false,
+    name: 'Voiceless alveolar fricative',
+    description:
+      'A clear hiss with the tongue near the ridge behind the upper teeth. Mexican Spanish uses it for s, z and soft c alike (seseo).',
+    approximation: '"s" in "see"',
+    examples: [
+      { spanish: 'sí', ipa: '[ˈsi]', english: 'yes' },
+      { spanish: 'cena', ipa: '[ˈse.na]', english: 'dinner' },
+    ],
+  },
+  {
+    id: 'eth',
+    symbol: 'ð',
+    category: 'consonant',
+    place: 'dental',
+    manner: 'fricative',
+    voiced: true,
+    name: 'Voiced dental fricative',
+    description:
+      'The soft d: the tongue tip comes close to the upper teeth without stopping the air. How d sounds between vowels.',
+    approximation: '"th" in "this", but lighter',
+    examples: [{ spanish: 'nada', ipa: '[ˈna.ða]', english: 'nothing' }],
+  },
+  {
+    id: 'x',
+    symbol: 'x',
+    category: 'consonant',
+    place: 'velar',
+    manner: 'fricative',
+    voiced: false,
+    name: 'Voiceless velar fricative',
+    description:
+      'Air rubs between the back of the tongue and the soft palate. Spelled j, and g before e or i; softer in Mexico than in Spain.',
+    approximation: 'A strong "h" in "hat"',
+    examples: [
+      { spanish: 'joven', ipa: '[ˈxo.βen]', english: 'young' },
+      { spanish: 'gente', ipa: '[ˈxen.te]', english: 'people' },
+    ],
+  },
+  {
+    id: 'gamma',
+    symbol: 'ɣ',
+    category: 'consonant',
+    place: 'velar',
+    manner: 'fricative',
+    voiced: true,
+    name: 'Voiced velar fricative',
+    description:
+      'The soft g: the back of the tongue comes close to the soft palate without closing. How g sounds between vowels.',
+    examples: [
+      { spanish: 'agua', ipa: '[ˈa.ɣwa]', english: 'water' },
+      { spanish: 'lago', ipa: '[ˈla.ɣo]', english: 'lake' },
+    ],
+  },
+  {
+    id: 'j-fricative',
+    symbol: 'ʝ',
+    category: 'consonant',
+    place: 'palatal',
+    manner: 'fricative',
+    voiced: true,
+    name: 'Voiced palatal fricative',
+    description:
+      'The usual sound of y and ll (yeísmo): the middle of the tongue comes close to the hard palate.',
+    approximation: 'Between "y" in "yes" and "j" in "jam"',
+    examples: [
+      { spanish: 'mayo', ipa: '[ˈma.ʝo]', english: 'May' },
+      { spanish: 'calle', ipa: '[ˈka.ʝe]', english: 'street' },
+    ],
+  },
+
+  // Affricates
+  {
+    id: 'tsh',
+    symbol: 'tʃ',
+    category: 'consonant',
+    place: 'postalveolar',
+    manner: 'affricate',
+    voiced: false,
+    name: 'Voiceless postalveolar affricate',
+    description: 'A stop released into a hiss, spelled ch.',
+    approximation: '"ch" in "church"',
+    examples: [{ spanish: 'chile', ipa: '[ˈtʃi.le]', english: 'chili pepper' }],
+  },
+  {
+    id: 'dzh',
+    symbol: 'ʤ',
+    category: 'consonant',
+    place: 'postalveolar',
+    manner: 'affricate',
+    voiced: true,
+    name: 'Voiced postalveolar affricate',
+    description: 'An emphatic y or ll, heard after a pause or after n or l.',
+    approximation: '"j" in "jam"',
+    examples: [
+      { spanish: 'yo', ipa: '[ˈʤo]', english: 'I' },
+      { spanish: 'conyugal', ipa: '[kon.ʤu.ˈɣal]', english: 'marital' },
+    ],
+  },
+
+  // Nasals
+  {
+    id: 'm',
+    symbol: 'm',
+    category: 'consonant',
+    place: 'bilabial',
+    manner: 'nasal',
+    voiced: true,
+    name: 'Bilabial nasal',
+    description: 'The lips close and air flows through the nose. Also how n sounds before b or p.',
+    approximation: '"m" in "mom"',
+    examples: [
+      { spanish: 'mamá', ipa: '[ma.ˈma]', english: 'mom' },
+      { spanish: 'un beso', ipa: '[um ˈbe.so]', english: 'a kiss' },
+    ],
+  },
+  {
+    id: 'n',
+    symbol: 'n',
+    category: 'consonant',
+    place: 'alveolar',
+    manner: 'nasal',
+    voiced: true,
+    name: 'Alveolar nasal',
+    description:
+      'The tongue tip touches the ridge behind the upper teeth and air flows through the nose.',
+    approximation: '"n" in "no"',
+    examples: [{ spanish: 'no', ipa: '[ˈno]', english: 'no' }],
+  },
+  {
+    id: 'ny',
+    symbol: 'ɲ',
+    category: 'consonant',
+    place: 'palatal',
+    manner: 'nasal',
+    voiced: true,
+    name: 'Palatal nasal',
+    description: 'The middle of the tongue presses against the hard palate; spelled ñ.',
+    approximation: '"ny" in "canyon"',
+    examples: [{ spanish: 'año', ipa: '[ˈa.ɲo]', english: 'year' }],
+  },
+  {
+    id: 'ng',
+    symbol: 'ŋ',
+    category: 'consonant',
+    place: 'velar',
+    manner: 'nasal',
+    voiced: true,
+    name: 'Velar nasal',
+    description: 'How n sounds before k, g or j: the back of the tongue touches the soft palate.',
+    approximation: '"ng" in "sing"',
+    examples: [{ spanish: 'tengo', ipa: '[ˈteŋ.go]', english: 'I have' }],
+  },
+
+  // Liquids
+  {
+    id: 'tap',
+    symbol: 'ɾ',
+    category: 'consonant',
+    place: 'alveolar',
+    manner: 'tap',
+    voiced: true,
+    name: 'Alveolar tap',
+    description: 'A single quick flick of the tongue tip against the ridge behind the upper teeth.',
+    approximation: '"tt" in American "butter"',
+    examples: [{ spanish: 'pero', ipa: '[ˈpe.ɾo]', english: 'but' }],
+  },
+  {
+    id: 'r',
+    symbol: 'r',
+    category: 'consonant',
+    place: 'alveolar',
+    manner: 'trill',
+    voiced: true,
+    name: 'Alveolar trill',
+    description:
+      'Several rapid flicks of the tongue tip. Spelled rr between vowels, and r at the start of a word or after n, l or s.',
+    examples: [
+      { spanish: 'perro', ipa: '[ˈpe.ro]', english: 'dog' },
+      { spanish: 'rojo', ipa: '[ˈro.xo]', english: 'red' },
+    ],
+  },
+  {
+    id: 'l',
+    symbol: 'l',
+    category: 'consonant',
+    place: 'alveolar',
+    manner: 'lateral',
+    voiced: true,
+    name: 'Alveolar lateral approximant',
+    description:
+      'The tongue tip touches the ridge behind the upper teeth and air flows around its sides. Always "clear", never the dark l of English "full".',
+    approximation: '"l" in "leaf"',
+    examples: [{ spanish: 'lago', ipa: '[ˈla.ɣo]', english: 'lake' }],
+  },
+
+  // Approximants
+  {
+    id: 'j',
+    symbol: 'j',
+    category: 'consonant',
+    place: 'palatal',
+    manner: 'approximant',
+    voiced: true,
+    name: 'Palatal approximant',
+    description: 'The glide in diphthongs written with unstressed i or y before or after a vowel.',
+    approximation: '"y" in "yes"',
+    examples: [
+      { spanish: 'bien', ipa: '[ˈbjen]', english: 'well' },
+      { spanish: 'muy', ipa: '[ˈmuj]', english: 'very' },
+    ],
+  },
+  {
+    id: 'w',
+    symbol: 'w',
+    category: 'consonant',
+    place: 'velar',
+    manner: 'approximant',
+    voiced: true,
+    name: 'Labial-velar approximant',
+    description:
+      'The glide in diphthongs written with unstressed u before or after a vowel; the lips round as the back of the tongue rises.',
+    approximation: '"w" in "wet"',
+    examples: [{ spanish: 'bueno', ipa: '[ˈbwe.no]', english: 'good' }],
+  },
+  {
+    id: 'velar-approximant',
+    symbol: 'ɰ',
+    category: 'consonant',
+    place: 'velar',
+    manner: 'approximant',
+    voiced: true,
+    name: 'Velar approximant',
+    description:
+      'An even softer g than [ɣ], with almost no friction; common between vowels in relaxed speech.',
+    examples: [{ spanish: 'lago', ipa: '[ˈla.ɰo]', english: 'lake' }],
+  },
+
+  // Vowels
+  {
+    id: 'i',
+    symbol: 'i',
+    category: 'vowel',
+    height: 'close',
+    backness: 'front',
+    name: 'Close front unrounded vowel',
+    description: 'Tongue high and forward, lips spread. Short and steady, without a glide.',
+    approximation: '"ee" in "see", shorter',
+    examples: [{ spanish: 'sí', ipa: '[ˈsi]', english: 'yes' }],
+  },
+  {
+    id: 'e',
+    symbol: 'e',
+    category: 'vowel',
+    height: 'mid',
+    backness: 'front',
+    name: 'Mid front unrounded vowel',
+    description: 'Tongue halfway up and forward. Never glides into "ee" as English "ay" does.',
+    approximation: '"e" in "bed", a little higher',
+    examples: [{ spanish: 'mesa', ipa: '[ˈme.sa]', english: 'table' }],
+  },
+  {
+    id: 'a',
+    symbol: 'a',
+    category: 'vowel',
+    height: 'open',
+    backness: 'central',
+    name: 'Open central unrounded vowel',
+    description:
+      'Mouth open, tongue low and centered. Keeps its full quality even when unstressed.',
+    approximation: '"a" in "father", shorter',
+    examples: [{ spanish: 'casa', ipa: '[ˈka.sa]', english: 'house' }],
+  },
+  {
+    id: 'o',
+    symbol: 'o',
+    category: 'vowel',
+    height: 'mid',
+    backness: 'back',
+    name: 'Mid back rounded vowel',
+    description:
+      'Tongue halfway up and back, lips rounded. Never glides into "oo" as English "oh" does.',
+    approximation: '"o" in "more", without the r',
+    examples: [{ spanish: 'todo', ipa: '[ˈto.ðo]', english: 'everything' }],
+  },
+  {
+    id: 'u',
+    symbol: 'u',
+    category: 'vowel',
+    height: 'close',
+    backness: 'back',
+    name: 'Close back rounded vowel',
+    description: 'Tongue high and back, lips tightly rounded. Short and steady.',
+    approximation: '"oo" in "food", shorter',
+    examples: [{ spanish: 'tú', ipa: '[ˈtu]', english: 'you' }],
+  },
+
+  // Diacritics and suprasegmentals
+  {
+    id: 'stress',
+    symbol: 'ˈ',
+    category: 'diacritic',
+    combining: false,
+    name: 'Primary stress',
+    description: 'Placed before the stressed syllable.',
+    examples: [{ spanish: 'casa', ipa: '[ˈka.sa]', english: 'house' }],
+  },
+  {
+    id: 'syllable',
+    symbol: '.',
+    category: 'diacritic',
+    combining: false,
+    name: 'Syllable break',
+    description: 'Separates syllables, so each one can be read on its own.',
+    examples: [{ spanish: 'palabra', ipa: '[pa.ˈla.βɾa]', english: 'word' }],
+  },
+  {
+    id: 'long',
+    symbol: 'ː',
+    category: 'diacritic',
+    combining: false,
+    name: 'Long',
+    description:
+      'The sound before it is held longer; in connected speech two identical vowels merge into one long vowel.',
+    examples: [{ spanish: 'leer', ipa: '[ˈleːɾ]', english: 'to read' }],
+  },
+  {
+    id: 'nasalized',
+    symbol: '̃',
+    category: 'diacritic',
+    combining: true,
+    name: 'Nasalized',
+    description:
+      'Air also flows through the nose; vowels between nasal consonants often take on this quality.',
+    examples: [{ spanish: 'mano', ipa: '[ˈmã.no]', english: 'hand' }],
+  },
+  {
+    id: 'lowered',
+    symbol: '̞',
+    category: 'diacritic',
+    combining: true,
+    name: 'Lowered',
+    description:
+      'Said with the tongue a little lower (a more open vowel), for example e before rr.',
+    examples: [{ spanish: 'perro', ipa: '[ˈpe̞.ro]', english: 'dog' }],
+  },
+  {
+    id: 'devoiced',
+    symbol: '̥',
+    category: 'diacritic',
+    combining: true,
+    name: 'Devoiced',
+    description:
+      'Said without vibrating the vocal cords. In Mexican Spanish, unstressed vowels next to s often shrink to a whisper.',
+    examples: [{ spanish: 'antes', ipa: '[ˈan.te̥s]', english: 'before' }],
+  },
+];
+
+const BY_ID = new Map(IPA_INVENTORY.map((entry) => [entry.id, entry]));
+
+export function findIpaSymbol(id: string): IpaSymbol | undefined {
+  return BY_ID.get(id);
+}
+
+/** Anchor of a symbol's entry in the IPA guide chart */
+export function ipaSymbolHref(entry: Pick<IpaSymbol, 'id'>): string {
+  return `/front-matter/ipa-guide#ipa-${entry.id}`;
+}
+
+/** Combining marks shown on a dotted circle, like IPA charts do */
+export function displaySymbol(entry: IpaSymbol): string {
+  return entry.category === 'diacritic' && entry.combining ? `◌${entry.symbol}` : entry.symbol;
+}
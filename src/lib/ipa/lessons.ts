@@ -0,0 +1,34 @@
+/**
+ * IPA Lesson Cross-References
+ *
+ * Which lessons use each inventory symbol, for the IPA guide chart.
+ * Counts transcriptions in lesson frontmatter (vocabulary and dialogue);
+ * combining marks count for the mark as well as the symbol they sit on.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { tokenizeIpa } from './symbols';
+
+/** Lessons by symbol id, in the order given */
+export function indexSymbolLessons(
+  lessons: CollectionEntry<'lessons'>[],
+): Map<string, CollectionEntry<'lessons'>[]> {
+  const index = new Map<string, CollectionEntry<'lessons'>[]>();
+
+  for (const lesson of lessons) {
+    const transcriptions = [...(lesson.data.vocabulary ?? []), ...(lesson.data.dialogue ?? [])]
+      .map((item) => item.ipa)
+      .filter((ipa): ipa is string => Boolean(ipa));
+
+    const ids = new Set(
+      transcriptions
+        .flatMap(tokenizeIpa)
+        .flatMap((token) => (token.symbol ? [token.symbol, ...token.marks] : []))
+        .map((symbol) => symbol.id),
+    );
+
+    for (const id of ids) index.set(id, [...(index.get(id) ?? []), lesson]);
+  }
+
+  return index;
+}
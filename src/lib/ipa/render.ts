@@ -0,0 +1,24 @@
+/**
+ * Transcription Markup
+ *
+ * HTML for an IPA transcription with each symbol wrapped in a
+ * `.ipa-symbol` span naming its inventory entry (`data-ipa-symbol`,
+ * plus `data-ipa-marks` for combining marks). Shared by
+ * components/IpaTranscription.astro and dialogue markup; tooltip.ts
+ * shows the description on hover or tap.
+ */
+
+import { escapeHtml } from '../text';
+import { tokenizeIpa } from './symbols';
+
+export function renderIpa(transcription: string): string {
+  return tokenizeIpa(transcription)
+    .map(({ text, symbol, marks }) => {
+      if (!symbol) return escapeHtml(text);
+      const marksAttr = marks.length
+        ? ` data-ipa-marks="${marks.map((mark) => mark.id).join(' ')}"`
+        : '';
+      return `<span class="ipa-symbol" data-ipa-symbol="${symbol.id}"${marksAttr}>${escapeHtml(text)}</span>`;
+    })
+    .join('');
+}
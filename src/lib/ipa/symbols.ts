@@ -0,0 +1,80 @@
+/**
+ * IPA Symbols
+ *
+ * Reading transcriptions against the IPA inventory (inventory.ts):
+ * - `findUndocumentedIpa()`: lesson transcriptions may only use inventory
+ *   symbols; the content schema rejects anything else so every symbol a
+ *   learner meets is explained in the IPA guide
+ * - `tokenizeIpa()`: splits a transcription into its symbols, so each one
+ *   can link to its entry (render.ts)
+ *
+ * Add a symbol to the inventory, with a description and examples, before
+ * using it in a lesson.
+ */
+
+import { IPA_INVENTORY, type IpaSymbol } from './inventory';
+
+/** Transcription delimiters and spacing, allowed anywhere */
+const IPA_DELIMITERS = ['/', '[', ']', ' '];
+
+const ALLOWED_CHARACTERS = new Set(
+  [...IPA_INVENTORY.map((entry) => entry.symbol), ...IPA_DELIMITERS].flatMap((symbol) => [
+    ...symbol.normalize('NFD'),
+  ]),
+);
+
+/** Symbols that stand on their own, longest first so "tʃ" wins over "t" */
+const BASE_SYMBOLS = IPA_INVENTORY.filter(
+  (entry) => !(entry.category === 'diacritic' && entry.combining),
+).sort((a, b) => b.symbol.length - a.symbol.length);
+
+const COMBINING_MARKS = new Map(
+  IPA_INVENTORY.filter((entry) => entry.category === 'diacritic' && entry.combining).map(
+    (entry) => [entry.symbol, entry],
+  ),
+);
+
+/** Characters in a transcription that the IPA guide does not cover */
+export function findUndocumentedIpa(transcription: string): string[] {
+  const unknown = [...transcription.normalize('NFD')].filter(
+    (char) => !ALLOWED_CHARACTERS.has(char),
+  );
+  return [...new Set(unknown)];
+}
+
+export interface IpaToken {
+  text: string;
+  /** Inventory entry; absent for delimiters, spaces and unknown characters */
+  symbol?: IpaSymbol;
+  /** Combining marks written on the symbol (nasalized, devoiced…) */
+  marks: IpaSymbol[];
+}
+
+/** A transcription split into symbols; joining the token texts gives it back (NFC) */
+export function tokenizeIpa(transcription: string): IpaToken[] {
+  const text = transcription.normalize('NFD');
+  const tokens: IpaToken[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const base = BASE_SYMBOLS.find((entry) => text.startsWith(entry.symbol, index));
+    const mark = base ? undefined : COMBINING_MARKS.get(text[index]);
+    const symbol = base ?? mark;
+    let end = index + (base ? base.symbol.length : 1);
+
+    const marks: IpaSymbol[] = [];
+    let next = base && COMBINING_MARKS.get(text[end]);
+    while (next) {
+      marks.push(next);
+      next = COMBINING_MARKS.get(text[++end]);
+    }
+
+    const previous = tokens[tokens.length - 1];
+    const chunk = text.slice(index, end);
+    if (!symbol && previous && !previous.symbol) previous.text += chunk;
+    else tokens.push({ text: chunk, symbol, marks });
+    index = end;
+  }
+
+  return tokens.map((token) => ({ ...token, text: token.text.normalize('NFC') }));
+}
@@ -0,0 +1,148 @@
+/**
+ * IPA Symbol Tooltips
+ *
+ * Describes the symbols of tokenized transcriptions (render.ts):
+ * - Hovering a symbol with a mouse, or tapping it, shows its name and
+ *   description with a link to its entry in the IPA guide chart
+ * - One tooltip element for the page; listeners are delegated from the
+ *   document, so transcriptions added later work too
+ * - Escape, scrolling or a click elsewhere hides it
+ */
+
+import { t } from '../i18n/client';
+import { findIpaSymbol, ipaSymbolHref, type IpaSymbol } from './inventory';
+
+const HIDE_DELAY = 200;
+
+let tip: HTMLElement | null = null;
+let activeSymbol: HTMLElement | null = null;
+let hideTimer: ReturnType<typeof setTimeout> | undefined;
+let listening = false;
+
+function getTip(): HTMLElement {
+  // Page swaps replace the body, taking the old tooltip with it
+  if (tip?.isConnected) return tip;
+
+  tip = document.createElement('div');
+  tip.className = 'ipa-tip';
+  tip.id = 'ipa-tip';
+  tip.setAttribute('role', 'tooltip');
+  tip.hidden = true;
+  tip.addEventListener('pointerenter', () => clearTimeout(hideTimer));
+  tip.addEventListener('pointerleave', scheduleHide);
+  document.body.appendChild(tip);
+  return tip;
+}
+
+function paragraph(text: string): HTMLParagraphElement {
+  const element = document.createElement('p');
+  element.textContent = text;
+  return element;
+}
+
+function fillTip(element: HTMLElement, text: string, entry: IpaSymbol, marks: IpaSymbol[]): void {
+  const heading = document.createElement('p');
+  heading.className = 'ipa-tip-heading';
+  const symbol = document.createElement('span');
+  symbol.className = 'ipa-tip-symbol';
+  symbol.textContent = text;
+  const name = document.createElement('strong');
+  name.textContent = [entry, ...marks].map((part) => part.name).join(', ');
+  heading.appendChild(symbol);
+  heading.appendChild(name);
+
+  const link = document.createElement('a');
+  link.href = ipaSymbolHref(entry);
+  link.textContent = t('ipa.seeChart');
+
+  element.replaceChildren(
+    heading,
+    paragraph(entry.description),
+    ...marks.map((mark) => paragraph(`${mark.name}: ${mark.description}`)),
+    link,
+  );
+}
+
+function position(element: HTMLElement, anchor: HTMLElement): void {
+  const gap = 6;
+  const margin = 8;
+  const rect = anchor.getBoundingClientRect();
+  const left = Math.min(
+    Math.max(margin, rect.left),
+    window.innerWidth - element.offsetWidth - margin,
+  );
+  const fitsBelow = rect.bottom + gap + element.offsetHeight <= window.innerHeight;
+  const top = fitsBelow ? rect.bottom + gap : rect.top - gap - element.offsetHeight;
+  element.style.left = `${Math.max(margin, left)}px`;
+  element.style.top = `${Math.max(margin, top)}px`;
+}
+
+function show(symbolElement: HTMLElement): void {
+  const entry = findIpaSymbol(symbolElement.dataset.ipaSymbol ?? '');
+  if (!entry) return;
+  const marks = (symbolElement.dataset.ipaMarks ?? '')
+    .split(' ')
+    .map(findIpaSymbol)
+    .filter((mark): mark is IpaSymbol => mark !== undefined);
+
+  clearTimeout(hideTimer);
+  hide();
+  const element = getTip();
+  fillTip(element, symbolElement.textContent ?? entry.symbol, entry, marks);
+  element.hidden = false;
+  position(element, symbolElement);
+
+  activeSymbol = symbolElement;
+  activeSymbol.dataset.active = '';
+  activeSymbol.setAttribute('aria-describedby', element.id);
+}
+
+function hide(): void {
+  if (tip) tip.hidden = true;
+  if (activeSymbol) {
+    delete activeSymbol.dataset.active;
+    activeSymbol.removeAttribute('aria-describedby');
+    activeSymbol = null;
+  }
+}
+
+function scheduleHide(): void {
+  clearTimeout(hideTimer);
+  hideTimer = setTimeout(hide, HIDE_DELAY);
+}
+
+function symbolAt(target: EventTarget | null): HTMLElement | null {
+  return target instanceof Element ? target.closest<HTMLElement>('[data-ipa-symbol]') : null;
+}
+
+export function initIpaTooltips(): void {
+  if (listening) return;
+  listening = true;
+
+  document.addEventListener('pointerover', (event) => {
+    const symbolElement = symbolAt(event.target);
+    if (event.pointerType !== 'mouse' || !symbolElement) return;
+    if (symbolElement === activeSymbol) clearTimeout(hideTimer);
+    else show(symbolElement);
+  });
+
+  document.addEventListener('pointerout', (event) => {
+    if (event.pointerType === 'mouse' && symbolAt(event.target)) scheduleHide();
+  });
+
+  // Taps (and clicks) open the tooltip; a tap anywhere else closes it
+  document.addEventListener('click', (event) => {
+    const symbolElement = symbolAt(event.target);
+    if (symbolElement) {
+      if (symbolElement !== activeSymbol) show(symbolElement);
+    } else if (!(event.target instanceof Node && tip?.contains(event.target))) {
+      hide();
+    }
+  });
+
+  document.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') hide();
+  });
+
+  window.addEventListener('scroll', hide, { passive: true, capture: true });
+}
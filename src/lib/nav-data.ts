@@ -1,25 +1,101 @@
 /**
  * Navigation Data
  *
- * Static navigation structure for the sidebar
+ * Navigation structure for the sidebar:
+ * - Site-wide pages (home, about, review, placement, admin) are static, labelled by
+ *   message key (src/lib/i18n/)
+ * - Front matter, lessons and appendices come from the active course
+ *   (src/content/courses/), see src/lib/courses.ts
  */
 
+import type { AstroCookies } from 'astro';
+import { getCollection, getEntry, type CollectionEntry } from 'astro:content';
+import { COURSE_COOKIE, DEFAULT_COURSE, lessonHref } from './courses';
+import { LESSON_SECTIONS, type LessonSection } from './content/lesson-rules';
+import type { MessageKey } from './i18n';
+
+export interface NavLink {
+  title: string;
+  href: string;
+}
+
+export interface LessonNavLink extends NavLink {
+  slug: string;
+}
+
+export interface CourseNav {
+  course: CollectionEntry<'courses'>;
+  frontMatter: NavLink[];
+  /** Sections with at least one lesson, in course order */
+  sections: Array<{ section: LessonSection; lessons: LessonNavLink[] }>;
+  appendices: NavLink[];
+}
+
+export interface StaticPageLink {
+  label: MessageKey;
+  href: string;
+}
+
 export const staticPages = {
-  home: { title: 'Home', href: '/' },
-  about: { title: 'About', href: '/about' },
-};
-
-export const frontMatter = [
-  { title: 'Abbreviations and Symbols', href: '/front-matter/abbreviations' },
-  { title: 'Guide to IPA Pronunciation', href: '/front-matter/ipa-guide' },
-  { title: 'Introduction to Mexican Spanish', href: '/front-matter/introduction' },
-  { title: 'How to Use This Resource', href: '/front-matter/how-to-use' },
-];
+  home: { label: 'nav.home', href: '/' },
+  about: { label: 'nav.about', href: '/about' },
+  review: { label: 'nav.review', href: '/review' },
+  placement: { label: 'nav.placement', href: '/placement' },
+  offline: { label: 'nav.offline', href: '/offline' },
+} satisfies Record<string, StaticPageLink>;
 
-export const appendices = [
-  { title: 'Verb Conjugation Tables', href: '/appendices/verb-tables' },
-  { title: 'Spanish-English Glossary', href: '/appendices/glossary' },
-  { title: 'Idioms & Expressions', href: '/appendices/idioms' },
-  { title: 'Cultural Notes Compendium', href: '/appendices/cultural-notes' },
-  { title: 'Grammar Reference', href: '/appendices/grammar-reference' },
+/** Only shown to admins */
+export const adminPages: StaticPageLink[] = [
+  { label: 'nav.classProgress', href: '/admin' },
+  { label: 'nav.students', href: '/admin/students' },
+  { label: 'nav.auditLog', href: '/admin/audit' },
 ];
+
+export async function getCourses(): Promise<CollectionEntry<'courses'>[]> {
+  return (await getCollection('courses')).sort((a, b) => a.data.order - b.data.order);
+}
+
+/** Lessons of one course, in course order */
+export async function getCourseLessons(course: string): Promise<CollectionEntry<'lessons'>[]> {
+  return (await getCollection('lessons', (lesson) => lesson.data.course === course)).sort(
+    (a, b) => a.data.order - b.data.order,
+  );
+}
+
+/**
+ * The course a page belongs to: the one in the URL when there is one,
+ * otherwise the last course studied (cookie), otherwise the default.
+ */
+export async function getActiveCourse(
+  cookies: AstroCookies,
+  requested?: string,
+): Promise<CollectionEntry<'courses'>> {
+  for (const id of [requested, cookies.get(COURSE_COOKIE)?.value]) {
+    const course = id ? await getEntry('courses', id) : undefined;
+    if (course) return course;
+  }
+  const fallback = await getEntry('courses', DEFAULT_COURSE);
+  if (!fallback) {
+    throw new Error(`Default course not found: src/content/courses/${DEFAULT_COURSE}.md`);
+  }
+  return fallback;
+}
+
+export async function getCourseNav(course: CollectionEntry<'courses'>): Promise<CourseNav> {
+  const lessons = await getCourseLessons(course.slug);
+  return {
+    course,
+    frontMatter: course.data.frontMatter,
+    sections: LESSON_SECTIONS.map((section) => ({
+      section,
+      lessons: lessons
+        .filter((lesson) => lesson.data.section === section)
+        .map((lesson) => ({
+          slug: lesson.slug,
+          title: lesson.data.title,
+          href: lessonHref(course.slug, lesson.slug),
+        })),
+    })).filter(({ lessons }) => lessons.length > 0),
+    appendices: course.data.appendices,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Offline Pages
+ *
+ * Talks to the service worker (public/sw.js) about saved pages. Each
+ * request gets its own MessageChannel; the worker answers on that port.
+ */
+
+export interface SaveResult {
+  saved: number;
+  failed: number;
+}
+
+type WorkerReply =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; saved: number; failed: number }
+  | { type: 'pages'; pages: string[] }
+  | { type: 'removed' };
+
+type WorkerMessage =
+  | { type: 'save-pages'; urls: string[] }
+  | { type: 'remove-pages'; urls: string[] }
+  | { type: 'list-pages' };
+
+/** Whether a service worker controls this page, i.e. saved pages can be served */
+export function isOfflineReadingAvailable(): boolean {
+  return 'serviceWorker' in navigator && navigator.serviceWorker.controller !== null;
+}
+
+async function sendMessage(
+  message: WorkerMessage,
+  onReply: (reply: WorkerReply) => boolean,
+): Promise<void> {
+  const registration = await navigator.serviceWorker.ready;
+  const worker = registration.active;
+  if (!worker) throw new Error('No active service worker');
+
+  await new Promise<void>((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event: MessageEvent<WorkerReply>) => {
+      // `true` means this was the last reply
+      if (onReply(event.data)) {
+        channel.port1.close();
+        resolve();
+      }
+    };
+    worker.postMessage(message, [channel.port2]);
+  });
+}
+
+/** Paths of every page saved for offline reading */
+export async function listSavedPages(): Promise<string[]> {
+  let pages: string[] = [];
+  await sendMessage({ type: 'list-pages' }, (reply) => {
+    if (reply.type !== 'pages') return false;
+    pages = reply.pages;
+    return true;
+  });
+  return pages;
+}
+
+export async function savePages(
+  urls: string[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<SaveResult> {
+  let result: SaveResult = { saved: 0, failed: 0 };
+  await sendMessage({ type: 'save-pages', urls }, (reply) => {
+    if (reply.type === 'progress') onProgress?.(reply.done, reply.total);
+    if (reply.type !== 'done') return false;
+    result = { saved: reply.saved, failed: reply.failed };
+    return true;
+  });
+  return result;
+}
+
+export async function removePages(urls: string[]): Promise<void> {
+  await sendMessage({ type: 'remove-pages', urls }, (reply) => reply.type === 'removed');
+}
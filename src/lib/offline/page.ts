@@ -0,0 +1,99 @@
+/**
+ * Offline Reading Page
+ *
+ * Save and remove buttons for each section on /offline:
+ * - Marks the pages already saved on this device
+ * - A section with every page saved offers removal instead
+ * - Saving needs a connection; buttons are disabled while offline
+ * - Served by the service worker in place of unsaved pages; it then
+ *   says so (the address bar still shows the requested page)
+ */
+
+import { t } from '../i18n/client';
+import { isOfflineReadingAvailable, listSavedPages, removePages, savePages } from './client';
+
+const OFFLINE_PAGE_PATH = '/offline';
+
+function groupPaths(group: HTMLElement): string[] {
+  return Array.from(group.querySelectorAll<HTMLElement>('[data-offline-page]')).map(
+    (item) => item.dataset.offlinePage ?? '',
+  );
+}
+
+function render(root: HTMLElement, saved: Set<string>): void {
+  root.querySelectorAll<HTMLElement>('[data-offline-group]').forEach((group) => {
+    const button = group.querySelector<HTMLButtonElement>('[data-offline-toggle]');
+    const paths = groupPaths(group);
+
+    group.querySelectorAll<HTMLElement>('[data-offline-page]').forEach((item) => {
+      item.dataset.saved = String(saved.has(item.dataset.offlinePage ?? ''));
+    });
+
+    if (!button) return;
+    const allSaved = paths.every((path) => saved.has(path));
+    button.dataset.action = allSaved ? 'remove' : 'save';
+    button.textContent = t(allSaved ? 'offline.remove' : 'offline.save');
+    button.disabled = !navigator.onLine && !allSaved;
+  });
+}
+
+async function refresh(root: HTMLElement): Promise<void> {
+  render(root, new Set(await listSavedPages()));
+}
+
+async function toggleGroup(root: HTMLElement, group: HTMLElement, button: HTMLButtonElement) {
+  const status = group.querySelector<HTMLElement>('[data-offline-status]');
+  const setStatus = (text: string) => {
+    if (status) status.textContent = text;
+  };
+  const paths = groupPaths(group);
+
+  button.disabled = true;
+  try {
+    if (button.dataset.action === 'remove') {
+      await removePages(paths);
+      setStatus(t('offline.removed'));
+    } else {
+      const { failed } = await savePages(paths, (done, total) =>
+        setStatus(t('offline.saving', { done, total })),
+      );
+      setStatus(
+        failed === 0 ? t('offline.saved') : t('offline.failed', { failed, total: paths.length }),
+      );
+    }
+  } catch (error) {
+    console.warn('Offline reading:', error);
+    setStatus(t('offline.error'));
+  }
+  await refresh(root);
+}
+
+export function initOfflinePage(): void {
+  const root = document.querySelector<HTMLElement>('[data-offline-sections]');
+  if (!root || root.dataset.initialized) return;
+  root.dataset.initialized = 'true';
+
+  if (window.location.pathname !== OFFLINE_PAGE_PATH) {
+    document.querySelector<HTMLElement>('[data-offline-fallback]')?.removeAttribute('hidden');
+  }
+
+  if (!isOfflineReadingAvailable()) {
+    document.querySelector<HTMLElement>('[data-offline-unavailable]')?.removeAttribute('hidden');
+    return;
+  }
+
+  root.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>(
+      '[data-offline-toggle]',
+    );
+    const group = button?.closest<HTMLElement>('[data-offline-group]');
+    if (button && group) toggleGroup(root, group, button);
+  });
+
+  const update = () => {
+    refresh(root).catch((error) => console.warn('Offline reading:', error));
+  };
+  window.addEventListener('online', update);
+  window.addEventListener('offline', update);
+  update();
+}
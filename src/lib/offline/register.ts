@@ -0,0 +1,16 @@
+/**
+ * Service Worker Registration
+ *
+ * Registers public/sw.js for offline reading. Production builds only:
+ * in dev the worker would cache Vite's unhashed modules and serve stale code.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((error) => {
+    console.warn('Offline reading is unavailable:', error);
+  });
+}
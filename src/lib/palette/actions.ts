@@ -0,0 +1,52 @@
+/**
+ * Command Palette Actions
+ *
+ * Things the palette can do besides opening pages. Which ones are offered
+ * depends on the page: lesson pages add marking the lesson complete and
+ * reviewing its words.
+ */
+
+import { t } from '../i18n/client';
+import { setPreference } from '../preferences';
+import { readLocalProgress, updateLessonProgress } from '../progress';
+import { DUE_DECK_ID, lessonDeckId, reviewHref } from '../review/decks';
+import type { PaletteItem } from './items';
+
+export interface PaletteAction extends PaletteItem {
+  run(): void;
+}
+
+function action(id: string, title: string, run: () => void): PaletteAction {
+  return { id: `action:${id}`, group: 'action', title, run };
+}
+
+export function currentActions(): PaletteAction[] {
+  const isDark = document.documentElement.classList.contains('dark');
+  const actions = [
+    action('theme', t(isDark ? 'palette.action.lightMode' : 'palette.action.darkMode'), () =>
+      setPreference('theme', isDark ? 'light' : 'dark'),
+    ),
+    action('review', t('palette.action.review'), () =>
+      window.location.assign(reviewHref(DUE_DECK_ID)),
+    ),
+  ];
+
+  const slug = document.querySelector<HTMLElement>('[data-lesson-slug]')?.dataset.lessonSlug;
+  if (slug) {
+    const completed = readLocalProgress().lessons[slug]?.completed ?? false;
+    actions.push(
+      action(
+        'complete',
+        t(completed ? 'palette.action.incomplete' : 'palette.action.complete'),
+        () => {
+          updateLessonProgress(slug, { completed: !completed }).catch(() => {});
+        },
+      ),
+      action('review-lesson', t('palette.action.reviewLesson'), () =>
+        window.location.assign(reviewHref(lessonDeckId(slug))),
+      ),
+    );
+  }
+
+  return actions;
+}
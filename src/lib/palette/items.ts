@@ -0,0 +1,33 @@
+/**
+ * Command Palette Items
+ *
+ * What the palette lists, in the order groups are shown when nothing is
+ * typed yet:
+ * - Recently used items, then actions (theme, lesson completion, review)
+ * - Headings on the current page
+ * - Lessons and pages of every course (rendered with the page, pages.ts)
+ * - Vocabulary words (from the search index, loaded on first open)
+ */
+
+export const PALETTE_GROUPS = [
+  'recent',
+  'action',
+  'heading',
+  'lesson',
+  'page',
+  'vocabulary',
+] as const;
+export type PaletteGroup = (typeof PALETTE_GROUPS)[number];
+
+export interface PaletteItem {
+  /** Stable across pages and deploys; recent items are remembered by it */
+  id: string;
+  group: PaletteGroup;
+  title: string;
+  /** Shown after the title, e.g. the lesson a word comes from */
+  detail?: string;
+  /** Matched as well, without highlighting (e.g. a word's translation) */
+  keywords?: string;
+  /** Links navigate here; actions have no href */
+  href?: string;
+}
@@ -0,0 +1,106 @@
+/**
+ * Command Palette Matching
+ *
+ * Fuzzy matching for short labels, as in editor command palettes:
+ * - The typed characters must appear in order, not necessarily together
+ *   ("frmt" finds "Front Matter"); spaces in the query are ignored
+ * - Accent-insensitive, with ranges in the original text for highlighting
+ * - Runs of consecutive characters and matches at the start of words
+ *   score higher, so "vt" prefers "Verb Tables" over "Vocabulary list"
+ */
+
+import { foldWithMap, mergeRanges, normalizeForSearch, type MatchRange } from '../search/normalize';
+
+export interface FuzzyMatch {
+  score: number;
+  /** Matched characters in the original text */
+  ranges: MatchRange[];
+}
+
+const SCORE_CHAR = 1;
+const BONUS_CONSECUTIVE = 3;
+const BONUS_WORD_START = 4;
+const BONUS_TEXT_START = 2;
+const PENALTY_GAP = 0.05;
+
+function isWordStart(folded: string, index: number): boolean {
+  return index === 0 || !/[\p{L}\p{N}]/u.test(folded[index - 1]);
+}
+
+/**
+ * Positions of the query's characters from `start` on: each continues the
+ * current run if it can, otherwise goes to its next occurrence at a word
+ * start (as long as the rest of the query still fits after it), otherwise
+ * to its next occurrence anywhere.
+ */
+function matchFrom(query: string, folded: string, start: number): number[] | null {
+  const positions: number[] = [];
+  let cursor = start;
+
+  for (let q = 0; q < query.length; q++) {
+    const next = folded.indexOf(query[q], cursor);
+    if (next === -1) return null;
+
+    // Continue a run when possible; otherwise prefer a word start further on
+    let position = next;
+    const previous = positions[positions.length - 1];
+    if (previous === undefined || next !== previous + 1) {
+      for (let i = next; i < folded.length; i++) {
+        if (folded[i] === query[q] && isWordStart(folded, i)) {
+          position = i;
+          break;
+        }
+      }
+      // Only jump ahead if the rest of the query still fits
+      if (position !== next && !fits(query.slice(q + 1), folded, position + 1)) position = next;
+    }
+
+    positions.push(position);
+    cursor = position + 1;
+  }
+
+  return positions;
+}
+
+function fits(rest: string, folded: string, start: number): boolean {
+  let cursor = start;
+  for (const char of rest) {
+    const next = folded.indexOf(char, cursor);
+    if (next === -1) return false;
+    cursor = next + 1;
+  }
+  return true;
+}
+
+function scorePositions(positions: number[], folded: string): number {
+  return positions.reduce((score, position, index) => {
+    let charScore = SCORE_CHAR;
+    if (index > 0 && position === positions[index - 1] + 1) charScore += BONUS_CONSECUTIVE;
+    if (isWordStart(folded, position)) charScore += BONUS_WORD_START;
+    if (position === 0) charScore += BONUS_TEXT_START;
+    const gap = index > 0 ? position - positions[index - 1] - 1 : position;
+    return score + charScore - gap * PENALTY_GAP;
+  }, 0);
+}
+
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const foldedQuery = normalizeForSearch(query).replace(/\s+/g, '');
+  if (!foldedQuery) return { score: 0, ranges: [] };
+
+  const { folded, map } = foldWithMap(text);
+  // Try each place the first character occurs and keep the best
+  let best: { score: number; positions: number[] } | null = null;
+  for (let start = folded.indexOf(foldedQuery[0]); start !== -1; ) {
+    const positions = matchFrom(foldedQuery, folded, start);
+    if (!positions) break;
+    const score = scorePositions(positions, folded);
+    if (!best || score > best.score) best = { score, positions };
+    start = folded.indexOf(foldedQuery[0], start + 1);
+  }
+  if (!best) return null;
+
+  const ranges = mergeRanges(
+    best.positions.map((position) => ({ start: map[position], end: map[position + 1] })),
+  );
+  return { score: best.score, ranges };
+}
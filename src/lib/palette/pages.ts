@@ -0,0 +1,60 @@
+/**
+ * Command Palette Pages
+ *
+ * The lessons and pages the palette can open, built on the server with
+ * the page (components/CommandPalette.astro): every course's lessons,
+ * front matter and appendices, the static pages, and the admin pages
+ * for admins. Course names are only shown when there is more than one.
+ */
+
+import { createTranslator } from '../i18n';
+import type { Locale } from '../i18n/locales';
+import { adminPages, getCourseNav, getCourses, staticPages } from '../nav-data';
+import type { PaletteItem } from './items';
+
+export async function buildPalettePages(options: {
+  locale: Locale;
+  isAdmin: boolean;
+}): Promise<PaletteItem[]> {
+  const { t } = createTranslator(options.locale);
+  const courses = await getCourses();
+  const navs = await Promise.all(courses.map(getCourseNav));
+  const items = new Map<string, PaletteItem>();
+
+  const add = (item: Omit<PaletteItem, 'id'> & { href: string }) => {
+    if (!items.has(item.href)) items.set(item.href, { id: `${item.group}:${item.href}`, ...item });
+  };
+  const inCourse = (detail: string, courseTitle: string) =>
+    courses.length > 1 ? `${detail} · ${courseTitle}` : detail;
+
+  navs.forEach(({ course, frontMatter, sections, appendices }) => {
+    const courseTitle = course.data.shortTitle;
+    sections.forEach(({ section, lessons }) =>
+      lessons.forEach((lesson) =>
+        add({
+          group: 'lesson',
+          title: lesson.title,
+          detail: inCourse(t(`section.${section}`), courseTitle),
+          href: lesson.href,
+        }),
+      ),
+    );
+    frontMatter.forEach((page) =>
+      add({ group: 'page', ...page, detail: inCourse(t('nav.frontMatter'), courseTitle) }),
+    );
+    appendices.forEach((page) =>
+      add({ group: 'page', ...page, detail: inCourse(t('nav.appendices'), courseTitle) }),
+    );
+  });
+
+  [...Object.values(staticPages), { label: 'nav.account' as const, href: '/account' }].forEach(
+    (page) => add({ group: 'page', title: t(page.label), href: page.href }),
+  );
+  if (options.isAdmin) {
+    adminPages.forEach((page) =>
+      add({ group: 'page', title: t(page.label), detail: t('nav.admin'), href: page.href }),
+    );
+  }
+
+  return [...items.values()];
+}
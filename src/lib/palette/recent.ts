@@ -0,0 +1,36 @@
+/**
+ * Recent Palette Items
+ *
+ * The last few items run from the command palette, newest first, kept on
+ * this device. Links are stored whole so they can be listed before the
+ * vocabulary is loaded; actions only by ID, since their labels depend on
+ * the page.
+ */
+
+import { readJson, writeJson } from '../storage';
+import { PALETTE_GROUPS, type PaletteItem } from './items';
+
+const RECENT_STORAGE_KEY = 'command-palette-recent';
+const MAX_RECENT = 5;
+
+function isPaletteItem(value: unknown): value is PaletteItem {
+  const item = value as PaletteItem;
+  return (
+    typeof item?.id === 'string' &&
+    typeof item.title === 'string' &&
+    PALETTE_GROUPS.includes(item.group)
+  );
+}
+
+export function readRecent(): PaletteItem[] {
+  const stored = readJson<unknown>(RECENT_STORAGE_KEY, []);
+  return Array.isArray(stored) ? stored.filter(isPaletteItem).slice(0, MAX_RECENT) : [];
+}
+
+export function rememberRecent(item: PaletteItem): void {
+  const entry: PaletteItem = item.href
+    ? { id: item.id, group: item.group, title: item.title, detail: item.detail, href: item.href }
+    : { id: item.id, group: item.group, title: item.title };
+  const others = readRecent().filter((recent) => recent.id !== item.id);
+  writeJson(RECENT_STORAGE_KEY, [entry, ...others].slice(0, MAX_RECENT));
+}
@@ -0,0 +1,339 @@
+/**
+ * Command Palette
+ *
+ * Ctrl/Cmd+K opens a dialog for getting anywhere without the mouse:
+ * - The input stays focused; Up/Down move through the results
+ *   (aria-activedescendant), Enter runs one and Escape closes
+ * - Empty query: recent items, actions, headings, then lessons and pages
+ * - Typing fuzzy-matches titles, falling back to plain matches in details
+ *   and translations; vocabulary only shows up once something is typed
+ * - The shortcut is a global listener that works even while typing, on
+ *   every page (the sidebar's handler only exists where there is a
+ *   sidebar). It matches the "k" typed, or the K key's position (e.code)
+ *   on layouts without Latin letters, such as Cyrillic
+ * - The sidebar's handler (keyboard.ts) leaves the shortcut to this
+ *   listener and its other shortcuts out of the way while the palette is
+ *   open
+ */
+
+import { t } from '../i18n/client';
+import { loadSearchIndex } from '../search/results-panel';
+import { normalizeForSearch, type MatchRange } from '../search/normalize';
+import { currentActions, type PaletteAction } from './actions';
+import type { PaletteGroup, PaletteItem } from './items';
+import { fuzzyMatch } from './match';
+import { readRecent, rememberRecent } from './recent';
+
+const MAX_RESULTS = 50;
+// Scores for matches outside the title, and the boost for recently used items
+const SECONDARY_SCORE = 1;
+const RECENT_BONUS = 3;
+
+interface PaletteRow {
+  item: PaletteItem | PaletteAction;
+  /** Group header this row is listed under (recent items keep their own group) */
+  group: PaletteGroup;
+  ranges: MatchRange[];
+}
+
+let pages: PaletteItem[] = [];
+let vocabulary: PaletteItem[] = [];
+let actions: PaletteAction[] = [];
+let headings: PaletteItem[] = [];
+let rows: PaletteRow[] = [];
+let activeIndex = 0;
+let shortcutRegistered = false;
+
+function getDialog(): HTMLDialogElement | null {
+  return document.getElementById('command-palette') as HTMLDialogElement | null;
+}
+
+function readPages(): PaletteItem[] {
+  const json = document.getElementById('command-palette-pages')?.textContent;
+  if (!json) return [];
+  try {
+    return JSON.parse(json) as PaletteItem[];
+  } catch {
+    return [];
+  }
+}
+
+function pageHeadings(): PaletteItem[] {
+  return Array.from(
+    document.querySelectorAll<HTMLElement>('#main-content h2[id], #main-content h3[id]'),
+  ).map((heading) => ({
+    id: `heading:${heading.id}`,
+    group: 'heading',
+    title: heading.textContent?.trim() ?? '',
+    href: `#${heading.id}`,
+  }));
+}
+
+function loadVocabulary(): void {
+  if (vocabulary.length > 0) return;
+  loadSearchIndex()
+    .then((index) => {
+      vocabulary = index
+        .filter(({ doc }) => doc.kind === 'vocabulary')
+        .map(({ doc }) => ({
+          id: `vocabulary:${doc.href}:${doc.title}`,
+          group: 'vocabulary',
+          title: doc.title,
+          detail: doc.context,
+          keywords: doc.text,
+          href: doc.href,
+        }));
+      if (isCommandPaletteOpen()) update();
+    })
+    .catch(() => {
+      // Offline or failed: the palette still works without words
+    });
+}
+
+/** Recent items, with actions swapped for the ones available on this page */
+function recentItems(): PaletteItem[] {
+  return readRecent().flatMap((recent) => {
+    if (recent.group !== 'action') return [recent];
+    const action = actions.find((candidate) => candidate.id === recent.id);
+    return action ? [action] : [];
+  });
+}
+
+function browseRows(): PaletteRow[] {
+  const recent = recentItems();
+  const recentIds = new Set(recent.map((item) => item.id));
+  const rest = [...actions, ...headings, ...pages].filter((item) => !recentIds.has(item.id));
+  return [
+    ...recent.map((item) => ({ item, group: 'recent' as const, ranges: [] })),
+    ...rest.map((item) => ({ item, group: item.group, ranges: [] })),
+  ];
+}
+
+function searchRows(query: string): PaletteRow[] {
+  const needle = normalizeForSearch(query.trim());
+  const recentIds = new Set(recentItems().map((item) => item.id));
+
+  return [...actions, ...headings, ...pages, ...vocabulary]
+    .flatMap((item) => {
+      const title = fuzzyMatch(query, item.title);
+      let score = title?.score;
+      if (score === undefined) {
+        const secondary = normalizeForSearch(`${item.detail ?? ''} ${item.keywords ?? ''}`);
+        if (!secondary.includes(needle)) return [];
+        score = SECONDARY_SCORE;
+      }
+      if (recentIds.has(item.id)) score += RECENT_BONUS;
+      return [{ item, group: item.group, ranges: title?.ranges ?? [], score }];
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS);
+}
+
+function renderTitle(text: string, ranges: MatchRange[]): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  let cursor = 0;
+  ranges.forEach(({ start, end }) => {
+    if (start > cursor) fragment.appendChild(document.createTextNode(text.slice(cursor, start)));
+    const mark = document.createElement('mark');
+    mark.textContent = text.slice(start, end);
+    fragment.appendChild(mark);
+    cursor = end;
+  });
+  if (cursor < text.length) fragment.appendChild(document.createTextNode(text.slice(cursor)));
+  return fragment;
+}
+
+function renderRow(row: PaletteRow, index: number, showGroup: boolean): HTMLLIElement {
+  const option = document.createElement('li');
+  option.id = `command-palette-option-${index}`;
+  option.className = 'command-palette-option';
+  option.setAttribute('role', 'option');
+  option.setAttribute('aria-selected', 'false');
+  option.dataset.index = String(index);
+
+  const title = document.createElement('span');
+  title.className = 'command-palette-title';
+  title.appendChild(renderTitle(row.item.title, row.ranges));
+  option.appendChild(title);
+
+  if (row.item.detail) {
+    const detail = document.createElement('span');
+    detail.className = 'command-palette-detail';
+    detail.textContent = row.item.detail;
+    option.appendChild(detail);
+  }
+
+  if (showGroup) {
+    const group = document.createElement('span');
+    group.className = 'command-palette-kind';
+    group.textContent = t(`palette.group.${row.item.group}`);
+    option.appendChild(group);
+  }
+
+  return option;
+}
+
+function render(query: string): void {
+  const list = document.getElementById('command-palette-list');
+  const empty = document.getElementById('command-palette-empty');
+  if (!list) return;
+
+  const browsing = query.trim() === '';
+  list.textContent = '';
+  let previousGroup: PaletteGroup | null = null;
+
+  rows.forEach((row, index) => {
+    // Group headers only while browsing; search results are ranked across groups
+    if (browsing && row.group !== previousGroup) {
+      const header = document.createElement('li');
+      header.className = 'command-palette-group';
+      header.setAttribute('role', 'presentation');
+      header.textContent = t(`palette.group.${row.group}`);
+      list.appendChild(header);
+      previousGroup = row.group;
+    }
+    list.appendChild(renderRow(row, index, !browsing));
+  });
+
+  if (empty) empty.hidden = rows.length > 0;
+  setActive(0);
+}
+
+function setActive(index: number): void {
+  const input = document.getElementById('command-palette-input');
+  const list = document.getElementById('command-palette-list');
+  if (!input || !list) return;
+
+  list.querySelector('[aria-selected="true"]')?.setAttribute('aria-selected', 'false');
+  if (rows.length === 0) {
+    input.removeAttribute('aria-activedescendant');
+    return;
+  }
+
+  activeIndex = (index + rows.length) % rows.length;
+  const option = document.getElementById(`command-palette-option-${activeIndex}`);
+  if (!option) return;
+  option.setAttribute('aria-selected', 'true');
+  input.setAttribute('aria-activedescendant', option.id);
+  option.scrollIntoView({ block: 'nearest' });
+}
+
+function update(): void {
+  const input = document.getElementById('command-palette-input') as HTMLInputElement | null;
+  const query = input?.value ?? '';
+  rows = query.trim() ? searchRows(query) : browseRows();
+  render(query);
+}
+
+function runRow(row: PaletteRow | undefined): void {
+  if (!row) return;
+  const { item } = row;
+  // Headings only make sense on the page they were found on
+  if (item.group !== 'heading') rememberRecent(item);
+  closeCommandPalette();
+
+  if ('run' in item) {
+    item.run();
+  } else if (item.href?.startsWith('#')) {
+    window.location.hash = item.href;
+  } else if (item.href) {
+    window.location.assign(item.href);
+  }
+}
+
+export function isCommandPaletteOpen(): boolean {
+  return getDialog()?.open ?? false;
+}
+
+export function openCommandPalette(): void {
+  const dialog = getDialog();
+  const input = document.getElementById('command-palette-input') as HTMLInputElement | null;
+  if (!dialog || !input || dialog.open) return;
+
+  // Actions and headings depend on the page's current state
+  actions = currentActions();
+  headings = pageHeadings();
+  input.value = '';
+  update();
+  dialog.showModal();
+  input.focus();
+  loadVocabulary();
+}
+
+export function closeCommandPalette(): void {
+  const dialog = getDialog();
+  if (dialog?.open) dialog.close();
+}
+
+export function toggleCommandPalette(): void {
+  if (isCommandPaletteOpen()) {
+    closeCommandPalette();
+  } else {
+    openCommandPalette();
+  }
+}
+
+/** Ctrl/Cmd+K, by the letter typed or, for non-Latin letters, by key position */
+export function isCommandPaletteShortcut(e: KeyboardEvent): boolean {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return false;
+  return /^\p{Script=Latin}$/u.test(e.key) ? e.key.toLowerCase() === 'k' : e.code === 'KeyK';
+}
+
+function handleShortcut(e: KeyboardEvent): void {
+  if (isCommandPaletteShortcut(e)) {
+    e.preventDefault();
+    toggleCommandPalette();
+  }
+}
+
+export function initCommandPalette(): void {
+  const dialog = getDialog();
+  const input = document.getElementById('command-palette-input') as HTMLInputElement | null;
+  const list = document.getElementById('command-palette-list');
+  if (!dialog || !input || !list) return;
+
+  // The document outlives page swaps: listen once
+  if (!shortcutRegistered) {
+    document.addEventListener('keydown', handleShortcut);
+    shortcutRegistered = true;
+  }
+
+  pages = readPages();
+  if (dialog.dataset.initialized) return;
+  dialog.dataset.initialized = 'true';
+
+  input.addEventListener('input', update);
+
+  input.addEventListener('keydown', (e) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActive(activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActive(activeIndex - 1);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        runRow(rows[activeIndex]);
+        break;
+    }
+  });
+
+  list.addEventListener('mousemove', (e) => {
+    const option = (e.target as HTMLElement).closest<HTMLElement>('[role="option"]');
+    const index = Number(option?.dataset.index);
+    if (option && index !== activeIndex) setActive(index);
+  });
+
+  list.addEventListener('click', (e) => {
+    const option = (e.target as HTMLElement).closest<HTMLElement>('[role="option"]');
+    if (option) runRow(rows[Number(option.dataset.index)]);
+  });
+
+  // Clicks on the backdrop land on the dialog itself
+  dialog.addEventListener('click', (e) => {
+    if (e.target === dialog) closeCommandPalette();
+  });
+}
@@ -0,0 +1,174 @@
+/**
+ * Placement Test Items
+ *
+ * Builds one course's placement test from its content, by section in
+ * course order. Each section has its lessons and a pool of items:
+ * - Vocabulary: pick the meaning of a lesson word, with other words'
+ *   meanings from the course as the wrong options
+ * - Grammar: how well the learner knows one of the lessons' grammar
+ *   topics, self-rated for partial credit
+ * - Questions written for the test (src/content/placement/<course>.yaml)
+ *
+ * Item IDs are stable across deploys. Prompts and the self-rating
+ * options are in the learner's locale. The test is handed to the client
+ * as JSON; options are shuffled there.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { LESSON_SECTIONS, type LessonSection } from '../content/lesson-rules';
+import { lessonHref } from '../courses';
+import { grammarTopicSlug } from '../grammar';
+import type { Translator } from '../i18n';
+import { slugify } from '../text';
+
+export type PlacementItemSource = 'vocabulary' | 'grammar' | 'question';
+
+export interface PlacementOption {
+  text: string;
+  /** 1 for a right answer, 0 for a wrong one, in between for self-ratings */
+  credit: number;
+}
+
+export interface PlacementItem {
+  id: string;
+  source: PlacementItemSource;
+  prompt: string;
+  options: PlacementOption[];
+}
+
+export interface PlacementLesson {
+  slug: string;
+  title: string;
+  href: string;
+}
+
+export interface PlacementSection {
+  section: LessonSection;
+  /** In course order */
+  lessons: PlacementLesson[];
+  items: PlacementItem[];
+}
+
+export interface PlacementTest {
+  course: string;
+  /** Sections with at least one lesson */
+  sections: PlacementSection[];
+}
+
+export type PlacementQuestion = CollectionEntry<'placement'>['data']['questions'][number];
+
+const GRAMMAR_OPTIONS = [
+  { key: 'placement.grammar.known', credit: 1 },
+  { key: 'placement.grammar.seen', credit: 0.5 },
+  { key: 'placement.grammar.new', credit: 0 },
+] as const;
+
+/** Wrong options per vocabulary item, when the course has enough words */
+const VOCABULARY_DISTRACTORS = 3;
+
+function vocabularyItems(
+  lessons: CollectionEntry<'lessons'>[],
+  meanings: string[],
+  { t }: Translator,
+): PlacementItem[] {
+  return lessons.flatMap((lesson) =>
+    (lesson.data.vocabulary ?? []).flatMap((word) => {
+      if (!word.english) return [];
+      // The meanings that follow this one, so each word gets different distractors
+      const start = meanings.indexOf(word.english);
+      const distractors = [...meanings.slice(start + 1), ...meanings.slice(0, start)].slice(
+        0,
+        VOCABULARY_DISTRACTORS,
+      );
+      if (distractors.length === 0) return [];
+
+      return [
+        {
+          id: `vocabulary:${lesson.slug}:${slugify(word.spanish)}`,
+          source: 'vocabulary' as const,
+          prompt: t('placement.prompt.vocabulary', { word: word.spanish }),
+          options: [
+            { text: word.english, credit: 1 },
+            ...distractors.map((text) => ({ text, credit: 0 })),
+          ],
+        },
+      ];
+    }),
+  );
+}
+
+function grammarItems(
+  lessons: CollectionEntry<'lessons'>[],
+  seen: Set<string>,
+  { t }: Translator,
+): PlacementItem[] {
+  const options = GRAMMAR_OPTIONS.map(({ key, credit }) => ({ text: t(key), credit }));
+
+  return lessons.flatMap((lesson) =>
+    (lesson.data.grammarTopics ?? []).flatMap((name) => {
+      // A topic is asked about in the first section that covers it
+      const slug = grammarTopicSlug(name);
+      if (!slug || seen.has(slug)) return [];
+      seen.add(slug);
+
+      return [
+        {
+          id: `grammar:${slug}`,
+          source: 'grammar' as const,
+          prompt: t('placement.prompt.grammar', { topic: name.trim() }),
+          options,
+        },
+      ];
+    }),
+  );
+}
+
+function questionItems(questions: PlacementQuestion[]): PlacementItem[] {
+  return questions.map((question) => ({
+    id: `question:${slugify(question.question)}`,
+    source: 'question',
+    prompt: question.question,
+    options: question.options.map((text) => ({
+      text,
+      credit: question.answers.includes(text) ? 1 : 0,
+    })),
+  }));
+}
+
+/**
+ * @param lessons - The course's lessons, in course order
+ * @param questions - The course's written questions (none if it has no file)
+ * @param translator - For the prompts and self-rating options
+ */
+export function buildPlacementTest(
+  course: string,
+  lessons: CollectionEntry<'lessons'>[],
+  questions: PlacementQuestion[],
+  translator: Translator,
+): PlacementTest {
+  const meanings = [
+    ...new Set(
+      lessons.flatMap((lesson) => (lesson.data.vocabulary ?? []).map((word) => word.english)),
+    ),
+  ].filter((meaning): meaning is string => Boolean(meaning));
+  const seenTopics = new Set<string>();
+
+  const sections = LESSON_SECTIONS.map((section) => {
+    const sectionLessons = lessons.filter((lesson) => lesson.data.section === section);
+    return {
+      section,
+      lessons: sectionLessons.map((lesson) => ({
+        slug: lesson.slug,
+        title: lesson.data.title,
+        href: lessonHref(course, lesson.slug),
+      })),
+      items: [
+        ...questionItems(questions.filter((question) => question.section === section)),
+        ...vocabularyItems(sectionLessons, meanings, translator),
+        ...grammarItems(sectionLessons, seenTopics, translator),
+      ],
+    };
+  }).filter(({ lessons }) => lessons.length > 0);
+
+  return { course, sections };
+}
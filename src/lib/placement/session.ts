@@ -0,0 +1,162 @@
+/**
+ * Placement Test Session
+ *
+ * The adaptive part of the placement test, kept free of the DOM:
+ * - Sections are tested in course order, each with up to
+ *   ITEMS_PER_SECTION items drawn at random, alternating between written
+ *   questions, vocabulary and grammar
+ * - A section ends as soon as its outcome is certain: passed once the
+ *   learner has PASS_SCORE of the credit available, failed once they can
+ *   no longer get there
+ * - The test stops at the first section not passed (or with nothing to
+ *   ask); the learner starts at its first lesson, and the lessons before
+ *   it can be marked as tested out
+ */
+
+import type { LessonSection } from '../content/lesson-rules';
+import type { PlacementItem, PlacementItemSource, PlacementLesson, PlacementTest } from './items';
+
+export const ITEMS_PER_SECTION = 6;
+export const PASS_SCORE = 0.7;
+
+const SOURCE_ORDER: readonly PlacementItemSource[] = ['question', 'vocabulary', 'grammar'];
+
+export type SectionOutcome = 'passed' | 'failed' | 'untested';
+
+export interface SectionResult {
+  section: LessonSection;
+  /** Credit earned, out of `asked` */
+  credit: number;
+  asked: number;
+  outcome: SectionOutcome;
+}
+
+export interface PlacementSession {
+  test: PlacementTest;
+  /** Index into test.sections of the section being tested */
+  sectionIndex: number;
+  /** Items drawn for the current section, including those already answered */
+  items: PlacementItem[];
+  /** Results so far; the last one is the current section's while it runs */
+  results: SectionResult[];
+  finished: boolean;
+}
+
+export interface PlacementResult {
+  sections: SectionResult[];
+  /** Where to start; null when the course has no lessons */
+  recommended: PlacementLesson | null;
+  /** Every lesson before the recommended one */
+  testedOut: PlacementLesson[];
+}
+
+type Random = () => number;
+
+function shuffle<T>(items: readonly T[], random: Random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/** Items for one section: shuffled per source, then taken from each source in turn */
+function drawItems(pool: PlacementItem[], random: Random): PlacementItem[] {
+  const bySource = SOURCE_ORDER.map((source) =>
+    shuffle(
+      pool.filter((item) => item.source === source),
+      random,
+    ),
+  );
+  const drawn: PlacementItem[] = [];
+  while (drawn.length < ITEMS_PER_SECTION && bySource.some((items) => items.length > 0)) {
+    for (const items of bySource) {
+      const item = items.shift();
+      if (item && drawn.length < ITEMS_PER_SECTION) drawn.push(item);
+    }
+  }
+  return drawn.map((item) => ({ ...item, options: shuffle(item.options, random) }));
+}
+
+function enterSection(
+  session: PlacementSession,
+  sectionIndex: number,
+  random: Random,
+): PlacementSession {
+  const section = session.test.sections[sectionIndex];
+  if (!section) return { ...session, finished: true };
+
+  const items = drawItems(section.items, random);
+  const result: SectionResult = {
+    section: section.section,
+    credit: 0,
+    asked: 0,
+    outcome: 'untested',
+  };
+  return {
+    ...session,
+    sectionIndex,
+    items,
+    results: [...session.results, result],
+    // Nothing to ask: the learner starts here
+    finished: items.length === 0,
+  };
+}
+
+export function startPlacement(
+  test: PlacementTest,
+  random: Random = Math.random,
+): PlacementSession {
+  const session: PlacementSession = {
+    test,
+    sectionIndex: 0,
+    items: [],
+    results: [],
+    finished: false,
+  };
+  return enterSection(session, 0, random);
+}
+
+/** The item to ask next, or null once the test is over */
+export function currentItem(session: PlacementSession): PlacementItem | null {
+  if (session.finished) return null;
+  const result = session.results[session.results.length - 1];
+  return session.items[result.asked] ?? null;
+}
+
+/** Record the credit of the chosen option and move on */
+export function answerPlacement(
+  session: PlacementSession,
+  credit: number,
+  random: Random = Math.random,
+): PlacementSession {
+  if (session.finished) return session;
+
+  const previous = session.results[session.results.length - 1];
+  const result = { ...previous, credit: previous.credit + credit, asked: previous.asked + 1 };
+  const required = session.items.length * PASS_SCORE;
+  const remaining = session.items.length - result.asked;
+
+  if (result.credit >= required) result.outcome = 'passed';
+  else if (result.credit + remaining < required) result.outcome = 'failed';
+
+  const updated = { ...session, results: [...session.results.slice(0, -1), result] };
+  if (result.outcome === 'passed') return enterSection(updated, session.sectionIndex + 1, random);
+  if (result.outcome === 'failed') return { ...updated, finished: true };
+  return updated;
+}
+
+export function placementResult(session: PlacementSession): PlacementResult {
+  const { sections } = session.test;
+  // The first section not passed, or the last one when every section was
+  const notPassed = session.results.findIndex((result) => result.outcome !== 'passed');
+  const startIndex = notPassed === -1 ? sections.length - 1 : notPassed;
+  if (startIndex < 0) return { sections: session.results, recommended: null, testedOut: [] };
+
+  return {
+    sections: session.results,
+    recommended: sections[startIndex].lessons[0],
+    testedOut: sections.slice(0, startIndex).flatMap(({ lessons }) => lessons),
+  };
+}
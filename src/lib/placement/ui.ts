@@ -0,0 +1,178 @@
+/**
+ * Placement Test UI
+ *
+ * Drives the /placement page:
+ * - Intro, then one item at a time; options are buttons, 1-4 pick one
+ * - Result: score per section, the recommended first lesson, and a
+ *   button marking the lessons before it as tested out in the
+ *   learner's progress (account, or this device offline)
+ */
+
+import { currentLocale, plural, t } from '../i18n/client';
+import { markLessonsTestedOut } from '../progress';
+import type { PlacementLesson, PlacementTest } from './items';
+import {
+  answerPlacement,
+  currentItem,
+  placementResult,
+  startPlacement,
+  type PlacementSession,
+  type SectionResult,
+} from './session';
+
+function byId(id: string): HTMLElement {
+  return document.getElementById(id) as HTMLElement;
+}
+
+function formatScore(result: SectionResult): string {
+  if (result.asked === 0) return '—';
+  return t('placement.scoreOf', {
+    percent: Math.round((result.credit / result.asked) * 100),
+    count: result.asked,
+  });
+}
+
+export function initPlacement(): void {
+  const root = byId('placement-app');
+  const dataElement = byId('placement-test');
+  if (!root || !dataElement || root.dataset.initialized) return;
+  root.dataset.initialized = 'true';
+
+  const test = JSON.parse(dataElement.textContent || '{}') as PlacementTest;
+
+  const intro = byId('placement-intro');
+  const startButton = document.getElementById('placement-start') as HTMLButtonElement;
+
+  const quiz = byId('placement-quiz');
+  const meta = byId('placement-meta');
+  const prompt = byId('placement-prompt');
+  const options = byId('placement-options');
+
+  const resultPanel = byId('placement-result');
+  const resultRows = byId('placement-result-rows');
+  const recommendation = byId('placement-recommendation');
+  const startLink = document.getElementById('placement-start-link') as HTMLAnchorElement;
+  const testOutButton = document.getElementById('placement-test-out') as HTMLButtonElement;
+  const testOutStatus = byId('placement-test-out-status');
+  const retakeButton = document.getElementById('placement-retake') as HTMLButtonElement;
+
+  let session: PlacementSession | null = null;
+  let testedOut: PlacementLesson[] = [];
+
+  const showItem = () => {
+    if (!session) return;
+    const item = currentItem(session);
+    if (!item) {
+      showResult();
+      return;
+    }
+
+    const result = session.results[session.results.length - 1];
+    meta.textContent = `${t(`section.${result.section}`)} · ${result.asked + 1} / ${session.items.length} · ${t(`placement.source.${item.source}`)}`;
+    prompt.textContent = item.prompt;
+    // Built-in prompts are in the interface language; written questions are mostly Spanish
+    prompt.lang = item.source === 'question' ? 'es' : currentLocale();
+    options.replaceChildren(
+      ...item.options.map((option, index) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'btn btn-secondary placement-option';
+        button.dataset.credit = String(option.credit);
+        button.textContent = option.text;
+        const key = document.createElement('kbd');
+        key.textContent = String(index + 1);
+        button.appendChild(key);
+        return button;
+      }),
+    );
+    options.querySelector<HTMLButtonElement>('button')?.focus();
+  };
+
+  const answer = (credit: number) => {
+    if (!session) return;
+    session = answerPlacement(session, credit);
+    showItem();
+  };
+
+  function showResult() {
+    if (!session) return;
+    const result = placementResult(session);
+
+    resultRows.replaceChildren(
+      ...result.sections.map((section) => {
+        const row = document.createElement('tr');
+        [
+          t(`section.${section.section}`),
+          formatScore(section),
+          t(`placement.outcome.${section.outcome}`),
+        ].forEach((text) => {
+          const cell = document.createElement('td');
+          cell.textContent = text;
+          row.appendChild(cell);
+        });
+        return row;
+      }),
+    );
+
+    if (result.recommended) {
+      recommendation.textContent = t('placement.recommended', {
+        lesson: result.recommended.title,
+      });
+      startLink.href = result.recommended.href;
+      startLink.hidden = false;
+    } else {
+      recommendation.textContent = t('placement.noLessons');
+      startLink.hidden = true;
+    }
+
+    testedOut = result.testedOut;
+    testOutButton.hidden = testedOut.length === 0;
+    testOutButton.disabled = false;
+    testOutButton.textContent = plural('placement.testOut', testedOut.length);
+    testOutStatus.textContent = '';
+
+    quiz.hidden = true;
+    resultPanel.hidden = false;
+    (result.recommended ? startLink : retakeButton).focus();
+  }
+
+  const testOut = () => {
+    testOutButton.disabled = true;
+    markLessonsTestedOut(testedOut.map((lesson) => lesson.slug))
+      .then(() => {
+        testOutStatus.textContent = t('placement.testedOut');
+      })
+      .catch(() => {
+        testOutButton.disabled = false;
+        testOutStatus.textContent = t('placement.saveFailed');
+      });
+  };
+
+  const start = () => {
+    session = startPlacement(test);
+    intro.hidden = true;
+    resultPanel.hidden = true;
+    quiz.hidden = false;
+    showItem();
+  };
+
+  startButton.disabled = test.sections.length === 0;
+  startButton.addEventListener('click', start);
+  retakeButton.addEventListener('click', start);
+  testOutButton.addEventListener('click', testOut);
+  options.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('[data-credit]');
+    if (button) answer(Number(button.dataset.credit));
+  });
+
+  document.addEventListener('keydown', (e) => {
+    if (quiz.hidden || e.target instanceof HTMLInputElement || e.metaKey || e.ctrlKey) return;
+
+    const buttons = options.querySelectorAll<HTMLButtonElement>('[data-credit]');
+    const index = Number(e.key) - 1;
+    if (index >= 0 && index < buttons.length) {
+      e.preventDefault();
+      answer(Number(buttons[index].dataset.credit));
+    }
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Preferences
+ *
+ * Entry point used by the theme toggle, sidebar, review page and
+ * pronunciation buttons:
+ * - One store per page, in localStorage (memory if that is unavailable)
+ * - Tabs stay in step through the `storage` event
+ * - For signed-in users (`data-signed-in` on <html>), synced preferences
+ *   follow them between devices through /api/preferences, unless turned
+ *   off on the account page
+ *
+ * The inline scripts that apply the theme and sidebar layout before the
+ * first paint read the same document (PREFERENCES_STORAGE_KEY) directly.
+ */
+
+import { deviceStorage } from '../storage';
+import {
+  PREFERENCES_STORAGE_KEY,
+  createKvPreferences,
+  createPreferencesStore,
+  type PreferencesListener,
+} from './store';
+import type { PreferenceKey, Preferences } from './schema';
+
+export type { PreferenceKey, Preferences } from './schema';
+
+const store = createPreferencesStore({ storage: deviceStorage, remote: createKvPreferences() });
+
+let initialized = false;
+
+export function getPreference<K extends PreferenceKey>(key: K): Preferences[K] {
+  return store.get(key);
+}
+
+export function setPreference<K extends PreferenceKey>(key: K, value: Preferences[K]): void {
+  store.set(key, value);
+}
+
+/** Call `listener` when any of `keys` changes; returns a function that stops listening */
+export function onPreferenceChange(
+  keys: PreferenceKey[],
+  listener: PreferencesListener,
+): () => void {
+  return store.subscribe((preferences, changed) => {
+    if (changed.some((key) => keys.includes(key))) listener(preferences, changed);
+  });
+}
+
+/** Start listening to other tabs and sync with the account (once per page load) */
+export function initPreferences(): void {
+  if (initialized) return;
+  initialized = true;
+
+  window.addEventListener('storage', (event) => {
+    // A null key means another tab cleared storage
+    if (event.key === PREFERENCES_STORAGE_KEY || event.key === null) store.reload();
+  });
+
+  if (document.documentElement.hasAttribute('data-signed-in')) store.sync();
+}
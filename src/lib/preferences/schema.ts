@@ -0,0 +1,230 @@
+/**
+ * Preferences Schema
+ *
+ * Display and study preferences as one versioned document, shared by the
+ * browser store (store.ts) and the account copy (/api/preferences):
+ * - Every value is validated; invalid or unknown ones are dropped and
+ *   the default applies instead
+ * - Older documents are migrated on read, starting from version 0: the
+ *   separate localStorage keys used before this document existed
+ * - Each value carries the time it was set, and merging keeps the newest
+ *   value of each preference, so devices can sync in any order
+ */
+
+import { CARD_DIRECTIONS, type CardDirection } from '../review/cards';
+
+export const PREFERENCES_VERSION = 1;
+
+export interface Preferences {
+  /** null follows the system setting */
+  theme: 'light' | 'dark' | null;
+  /** Desktop sidebar width in pixels; null uses the default */
+  sidebarWidth: number | null;
+  /** null shows the sidebar on desktop and hides it on tablets */
+  sidebarVisible: boolean | null;
+  /** Sidebar sections the learner closed, by `data-section` ID */
+  collapsedSections: string[];
+  /** Flashcard directions chosen on the review page */
+  reviewDirections: CardDirection[];
+  slowPronunciation: boolean;
+  /** Whether this device syncs its preferences with the account */
+  syncWithAccount: boolean;
+}
+
+export type PreferenceKey = keyof Preferences;
+
+export interface PreferencesDocument {
+  version: number;
+  values: Partial<Preferences>;
+  /** ISO timestamp each value was set */
+  updatedAt: Partial<Record<PreferenceKey, string>>;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  theme: null,
+  sidebarWidth: null,
+  sidebarVisible: null,
+  collapsedSections: [],
+  reviewDirections: ['es-en'],
+  slowPronunciation: false,
+  syncWithAccount: true,
+};
+
+/** Never leave the device: they depend on the screen, or control syncing */
+export const DEVICE_PREFERENCES: readonly PreferenceKey[] = ['sidebarVisible', 'syncWithAccount'];
+
+/** localStorage keys holding one raw value each, read as version 0 */
+export const LEGACY_KEYS = {
+  theme: 'theme',
+  sidebarWidth: 'sidebar-width',
+  sidebarVisible: 'sidebar-visible',
+  collapsedSections: 'sidebar-collapsed-sections',
+  reviewDirections: 'review-directions',
+  slowPronunciation: 'pronunciation-slow',
+} satisfies Partial<Record<PreferenceKey, string>>;
+
+const MAX_LIST_LENGTH = 200;
+const MAX_SIDEBAR_WIDTH = 2000;
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length <= MAX_LIST_LENGTH &&
+    value.every((item) => typeof item === 'string' && item.length <= MAX_LIST_LENGTH)
+  );
+}
+
+const VALIDATORS: { [K in PreferenceKey]: (value: unknown) => boolean } = {
+  theme: (value) => value === null || value === 'light' || value === 'dark',
+  sidebarWidth: (value) =>
+    value === null ||
+    (typeof value === 'number' &&
+      Number.isInteger(value) &&
+      value > 0 &&
+      value <= MAX_SIDEBAR_WIDTH),
+  sidebarVisible: (value) => value === null || typeof value === 'boolean',
+  collapsedSections: isStringList,
+  reviewDirections: (value) =>
+    isStringList(value) &&
+    value.every((direction) => (CARD_DIRECTIONS as readonly string[]).includes(direction)),
+  slowPronunciation: (value) => typeof value === 'boolean',
+  syncWithAccount: (value) => typeof value === 'boolean',
+};
+
+const PREFERENCE_KEYS = Object.keys(VALIDATORS) as PreferenceKey[];
+
+export function isPreferenceValue<K extends PreferenceKey>(
+  key: K,
+  value: unknown,
+): value is Preferences[K] {
+  return VALIDATORS[key](value);
+}
+
+function parseLegacyJson(value: unknown): unknown {
+  try {
+    return typeof value === 'string' ? JSON.parse(value) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+type Migration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+/** Each migration turns a document of version N into version N + 1 */
+const MIGRATIONS: Record<number, Migration> = {
+  // Keys that were never set stay undefined and are dropped by validation
+  0: (legacy) => ({
+    version: 1,
+    values: {
+      theme: legacy.theme,
+      sidebarWidth:
+        typeof legacy.sidebarWidth === 'string' ? Number(legacy.sidebarWidth) : undefined,
+      sidebarVisible: parseLegacyJson(legacy.sidebarVisible),
+      collapsedSections: parseLegacyJson(legacy.collapsedSections),
+      reviewDirections: parseLegacyJson(legacy.reviewDirections),
+      slowPronunciation: parseLegacyJson(legacy.slowPronunciation),
+    },
+    // Older than anything set since, so values in the account win
+    updatedAt: {},
+  }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function emptyPreferences(): PreferencesDocument {
+  return { version: PREFERENCES_VERSION, values: {}, updatedAt: {} };
+}
+
+/** Migrate and validate a stored document; anything unusable is dropped */
+export function parsePreferences(raw: unknown): PreferencesDocument {
+  let document = isRecord(raw) ? raw : {};
+  let version = typeof document.version === 'number' ? document.version : 0;
+  while (version < PREFERENCES_VERSION && MIGRATIONS[version]) {
+    document = MIGRATIONS[version](document);
+    version += 1;
+  }
+
+  const values = isRecord(document.values) ? document.values : {};
+  const updatedAt = isRecord(document.updatedAt) ? document.updatedAt : {};
+  const parsed = emptyPreferences();
+
+  PREFERENCE_KEYS.forEach((key) => {
+    if (!(key in values) || !isPreferenceValue(key, values[key])) return;
+    Object.assign(parsed.values, { [key]: values[key] });
+    const time = updatedAt[key];
+    if (typeof time === 'string' && !Number.isNaN(Date.parse(time))) parsed.updatedAt[key] = time;
+  });
+
+  return parsed;
+}
+
+/** Defaults filled in for everything not set */
+export function resolvePreferences(document: PreferencesDocument): Preferences {
+  return { ...DEFAULT_PREFERENCES, ...document.values };
+}
+
+function isNewer(
+  key: PreferenceKey,
+  source: PreferencesDocument,
+  target: PreferencesDocument,
+): boolean {
+  if (!(key in source.values)) return false;
+  if (!(key in target.values)) return true;
+  return (target.updatedAt[key] ?? '') < (source.updatedAt[key] ?? '');
+}
+
+function pick(document: PreferencesDocument, keys: PreferenceKey[]): PreferencesDocument {
+  const picked = emptyPreferences();
+  keys.forEach((key) => {
+    Object.assign(picked.values, { [key]: document.values[key] });
+    const time = document.updatedAt[key];
+    if (time) picked.updatedAt[key] = time;
+  });
+  return picked;
+}
+
+/** Combine two documents; for each preference the newest value wins */
+export function mergePreferences(
+  base: PreferencesDocument,
+  changes: PreferencesDocument,
+): PreferencesDocument {
+  const merged = pick(base, Object.keys(base.values) as PreferenceKey[]);
+  const newer = PREFERENCE_KEYS.filter((key) => isNewer(key, changes, base));
+  const updates = pick(changes, newer);
+  return {
+    version: PREFERENCES_VERSION,
+    values: { ...merged.values, ...updates.values },
+    updatedAt: { ...merged.updatedAt, ...updates.updatedAt },
+  };
+}
+
+/** Values in `source` that `target` does not have yet */
+export function diffPreferences(
+  source: PreferencesDocument,
+  target: PreferencesDocument,
+): PreferencesDocument | null {
+  const newer = PREFERENCE_KEYS.filter((key) => isNewer(key, source, target));
+  return newer.length > 0 ? pick(source, newer) : null;
+}
+
+/** The part of a document that is synced with the account */
+export function accountPreferences(document: PreferencesDocument): PreferencesDocument {
+  return pick(
+    document,
+    (Object.keys(document.values) as PreferenceKey[]).filter(
+      (key) => !DEVICE_PREFERENCES.includes(key),
+    ),
+  );
+}
+
+/** Preferences whose resolved value differs between two documents */
+export function changedPreferences(
+  before: PreferencesDocument,
+  after: PreferencesDocument,
+): PreferenceKey[] {
+  const a = resolvePreferences(before);
+  const b = resolvePreferences(after);
+  return PREFERENCE_KEYS.filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+}
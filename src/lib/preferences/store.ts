@@ -0,0 +1,190 @@
+/**
+ * Preferences Store
+ *
+ * The preferences document (schema.ts) in device storage, optionally
+ * synced with an account:
+ * - Storage and account are passed in, so either can be swapped out
+ * - Reads come from memory; every change is written to storage at once
+ *   and, when syncing, sent to the account shortly after (batched, so
+ *   dragging the sidebar does not flood the API)
+ * - Subscribers hear about every change, whether made on this page,
+ *   in another tab (`reload`) or on another device (`sync`)
+ */
+
+import {
+  LEGACY_KEYS,
+  PREFERENCES_VERSION,
+  accountPreferences,
+  changedPreferences,
+  diffPreferences,
+  emptyPreferences,
+  isPreferenceValue,
+  mergePreferences,
+  parsePreferences,
+  resolvePreferences,
+  type PreferenceKey,
+  type Preferences,
+  type PreferencesDocument,
+} from './schema';
+import type { KeyValueStorage } from '../storage';
+
+export const PREFERENCES_STORAGE_KEY = 'preferences';
+
+const PREFERENCES_ENDPOINT = '/api/preferences';
+const REMOTE_SAVE_DELAY = 1000;
+
+export interface RemotePreferences {
+  load(): Promise<PreferencesDocument>;
+  /** Merge changes into the account's copy and return the result */
+  save(changes: PreferencesDocument): Promise<PreferencesDocument>;
+}
+
+export type PreferencesListener = (preferences: Preferences, changed: PreferenceKey[]) => void;
+
+export interface PreferencesStore {
+  get<K extends PreferenceKey>(key: K): Preferences[K];
+  getAll(): Preferences;
+  set<K extends PreferenceKey>(key: K, value: Preferences[K]): void;
+  /** Returns a function that removes the listener */
+  subscribe(listener: PreferencesListener): () => void;
+  /** Pick up changes another tab wrote to storage */
+  reload(): void;
+  /** Exchange changes with the account, if there is one and syncing is on */
+  sync(): Promise<void>;
+}
+
+export function createKvPreferences(): RemotePreferences {
+  return {
+    async load() {
+      const response = await fetch(PREFERENCES_ENDPOINT, { credentials: 'same-origin' });
+      if (!response.ok) throw new Error(`Loading preferences failed: ${response.status}`);
+      return parsePreferences(await response.json());
+    },
+    async save(changes) {
+      const response = await fetch(PREFERENCES_ENDPOINT, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) throw new Error(`Saving preferences failed: ${response.status}`);
+      return parsePreferences(await response.json());
+    },
+  };
+}
+
+/** The stored document, or one migrated from the legacy keys (removed afterwards) */
+function readDocument(storage: KeyValueStorage): PreferencesDocument {
+  const stored = storage.get(PREFERENCES_STORAGE_KEY);
+  if (stored !== null) {
+    try {
+      return parsePreferences(JSON.parse(stored));
+    } catch {
+      return emptyPreferences();
+    }
+  }
+
+  const legacy = Object.fromEntries(
+    Object.entries(LEGACY_KEYS)
+      .map(([key, storageKey]) => [key, storage.get(storageKey)])
+      .filter(([, value]) => value !== null),
+  );
+  if (Object.keys(legacy).length === 0) return emptyPreferences();
+
+  const migrated = parsePreferences({ ...legacy, version: 0 });
+  storage.set(PREFERENCES_STORAGE_KEY, JSON.stringify(migrated));
+  Object.values(LEGACY_KEYS).forEach((storageKey) => storage.remove(storageKey));
+  return migrated;
+}
+
+export function createPreferencesStore(options: {
+  storage: KeyValueStorage;
+  remote?: RemotePreferences;
+}): PreferencesStore {
+  const { storage, remote } = options;
+  const listeners = new Set<PreferencesListener>();
+  let document = readDocument(storage);
+  let pendingChanges: PreferencesDocument | null = null;
+  let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function isSyncing(): boolean {
+    return Boolean(remote) && resolvePreferences(document).syncWithAccount;
+  }
+
+  function update(next: PreferencesDocument, persist: boolean): void {
+    const changed = changedPreferences(document, next);
+    document = next;
+    if (persist) storage.set(PREFERENCES_STORAGE_KEY, JSON.stringify(next));
+    if (changed.length === 0) return;
+
+    const preferences = resolvePreferences(next);
+    listeners.forEach((listener) => listener(preferences, changed));
+  }
+
+  function flush(): void {
+    clearTimeout(saveTimer);
+    if (!remote || !pendingChanges) return;
+
+    const changes = pendingChanges;
+    pendingChanges = null;
+    remote.save(changes).catch((error) => {
+      // Kept on this device; the next sync sends it again
+      console.warn('Preferences saved on this device only:', error);
+    });
+  }
+
+  function queue(changes: PreferencesDocument): void {
+    const shared = accountPreferences(changes);
+    if (!isSyncing() || Object.keys(shared.values).length === 0) return;
+
+    pendingChanges = pendingChanges ? mergePreferences(pendingChanges, shared) : shared;
+    clearTimeout(saveTimer);
+    saveTimer = setTimeout(flush, REMOTE_SAVE_DELAY);
+  }
+
+  const store: PreferencesStore = {
+    get(key) {
+      return resolvePreferences(document)[key];
+    },
+    getAll() {
+      return resolvePreferences(document);
+    },
+    set(key, value) {
+      if (!isPreferenceValue(key, value)) {
+        console.warn(`Ignoring invalid value for preference "${key}":`, value);
+        return;
+      }
+      const changes: PreferencesDocument = {
+        version: PREFERENCES_VERSION,
+        values: { [key]: value },
+        updatedAt: { [key]: new Date().toISOString() },
+      };
+      // Read storage again in case another tab changed it since
+      update(mergePreferences(readDocument(storage), changes), true);
+      if (key === 'syncWithAccount' && value) store.sync();
+      else queue(changes);
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    reload() {
+      update(readDocument(storage), false);
+    },
+    async sync() {
+      if (!remote || !isSyncing()) return;
+      flush();
+      try {
+        let account = await remote.load();
+        // Push what was changed on this device while not syncing or offline
+        const unsynced = diffPreferences(accountPreferences(document), account);
+        if (unsynced) account = await remote.save(unsynced);
+        update(mergePreferences(document, accountPreferences(account)), true);
+      } catch (error) {
+        console.warn('Using preferences saved on this device:', error);
+      }
+    },
+  };
+
+  return store;
+}
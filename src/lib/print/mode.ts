@@ -0,0 +1,44 @@
+/**
+ * Print Mode
+ *
+ * Adjustments the print stylesheet cannot make on its own, applied just
+ * before printing and undone afterwards:
+ * - Closed <details> blocks are opened; browsers print only their summary,
+ *   which would leave answers out of handouts
+ * - Dark mode is switched off so pages print dark on white
+ */
+
+const OPENED_FOR_PRINT = 'data-opened-for-print';
+const DARK_CLASS = 'dark';
+
+let wasDark = false;
+
+function enterPrintMode(): void {
+  document.querySelectorAll<HTMLDetailsElement>('details:not([open])').forEach((details) => {
+    details.open = true;
+    details.setAttribute(OPENED_FOR_PRINT, '');
+  });
+
+  wasDark = document.documentElement.classList.contains(DARK_CLASS);
+  document.documentElement.classList.remove(DARK_CLASS);
+}
+
+function exitPrintMode(): void {
+  document
+    .querySelectorAll<HTMLDetailsElement>(`details[${OPENED_FOR_PRINT}]`)
+    .forEach((details) => {
+      details.open = false;
+      details.removeAttribute(OPENED_FOR_PRINT);
+    });
+
+  if (wasDark) document.documentElement.classList.add(DARK_CLASS);
+}
+
+let initialized = false;
+
+export function initPrintMode(): void {
+  if (initialized) return;
+  initialized = true;
+  window.addEventListener('beforeprint', enterPrintMode);
+  window.addEventListener('afterprint', exitPrintMode);
+}
@@ -0,0 +1,22 @@
+/**
+ * Printable Sections
+ *
+ * One combined print document per lesson section of a course, served by
+ * src/pages/[course]/print/[section].astro (e.g. /mexican-spanish/print/foundation).
+ */
+
+import { LESSON_SECTIONS, type LessonSection } from '../content/lesson-rules';
+import { courseHref } from '../courses';
+
+export function printSectionSlug(section: string): string {
+  return section.toLowerCase();
+}
+
+export function printSectionHref(course: string, section: string): string {
+  return `${courseHref(course)}/print/${printSectionSlug(section)}`;
+}
+
+/** The section a print URL refers to, if any */
+export function findPrintSection(slug: string): LessonSection | undefined {
+  return LESSON_SECTIONS.find((section) => printSectionSlug(section) === slug);
+}
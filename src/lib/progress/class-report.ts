@@ -0,0 +1,150 @@
+/**
+ * Class Progress Report
+ *
+ * One row per student for the admin dashboard (/admin) and its CSV
+ * export, built from the per-user records in KV (auth/user-data.ts):
+ * - Lessons completed in each section of a course
+ * - Practice drill scores: the latest check of each drill, summed
+ * - Flashcards scheduled and review streaks (review/streaks.ts)
+ * - Last activity: the latest lesson visit, progress update, drill check
+ *   or flashcard review, in any course
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { USER_DATA_NAMESPACES, getUserData } from '../auth/user-data';
+import { listUsers } from '../auth/users';
+import { LESSON_SECTIONS, type LessonSection } from '../content/lesson-rules';
+import type { ReviewStates } from '../review/decks';
+import { currentStreak, longestStreak } from '../review/streaks';
+import { toCsv } from '../text';
+import { emptyProgress, type ProgressData } from './store';
+
+export interface SectionProgress {
+  section: LessonSection;
+  completed: number;
+  total: number;
+}
+
+export interface StudentReport {
+  id: string;
+  name: string;
+  email: string;
+  joinedAt: string;
+  /** Sections of the course that have lessons, in course order */
+  sections: SectionProgress[];
+  drills: { checked: number; score: number; total: number };
+  cardsScheduled: number;
+  currentStreak: number;
+  longestStreak: number;
+  /** ISO timestamp; missing until the student does anything */
+  lastActiveAt?: string;
+}
+
+function latest(timestamps: Array<string | undefined>): string | undefined {
+  return timestamps.reduce<string | undefined>(
+    (newest, timestamp) => (timestamp && (!newest || timestamp > newest) ? timestamp : newest),
+    undefined,
+  );
+}
+
+function lastActivity(progress: ProgressData, states: ReviewStates): string | undefined {
+  return latest([
+    progress.lastLesson?.visitedAt,
+    ...Object.values(progress.lessons).flatMap((lesson) => [
+      lesson.updatedAt,
+      ...Object.values(lesson.drills ?? {}).map((drill) => drill.checkedAt),
+    ]),
+    ...Object.values(states).map((state) => state.lastReviewed),
+  ]);
+}
+
+/** Reports for every student account, for the lessons of one course */
+export async function buildClassReport(
+  kv: KVNamespace,
+  lessons: CollectionEntry<'lessons'>[],
+  now = new Date(),
+): Promise<StudentReport[]> {
+  const students = (await listUsers(kv)).filter((user) => user.role === 'student');
+  const sections = LESSON_SECTIONS.filter((section) =>
+    lessons.some((lesson) => lesson.data.section === section),
+  );
+
+  return Promise.all(
+    students.map(async (student) => {
+      const [progress, states, days] = await Promise.all([
+        getUserData<ProgressData>(kv, USER_DATA_NAMESPACES.progress, student.id),
+        getUserData<ReviewStates>(kv, USER_DATA_NAMESPACES.review, student.id),
+        getUserData<string[]>(kv, USER_DATA_NAMESPACES.reviewDays, student.id),
+      ]);
+      const lessonProgress = (progress ?? emptyProgress()).lessons;
+      const drillResults = lessons.flatMap((lesson) =>
+        Object.values(lessonProgress[lesson.slug]?.drills ?? {}),
+      );
+
+      return {
+        id: student.id,
+        name: student.name,
+        email: student.email,
+        joinedAt: student.createdAt,
+        sections: sections.map((section) => {
+          const sectionLessons = lessons.filter((lesson) => lesson.data.section === section);
+          return {
+            section,
+            completed: sectionLessons.filter((lesson) => lessonProgress[lesson.slug]?.completed)
+              .length,
+            total: sectionLessons.length,
+          };
+        }),
+        drills: {
+          checked: drillResults.length,
+          score: drillResults.reduce((sum, result) => sum + result.score, 0),
+          total: drillResults.reduce((sum, result) => sum + result.total, 0),
+        },
+        cardsScheduled: Object.keys(states ?? {}).length,
+        currentStreak: currentStreak(days ?? [], now),
+        longestStreak: longestStreak(days ?? []),
+        lastActiveAt: lastActivity(progress ?? emptyProgress(), states ?? {}),
+      };
+    }),
+  );
+}
+
+/** Share of drill answers correct, 0–100, or null before any drill is checked */
+export function drillPercent(report: StudentReport): number | null {
+  return report.drills.total > 0
+    ? Math.round((report.drills.score / report.drills.total) * 100)
+    : null;
+}
+
+export function classReportCsv(reports: StudentReport[]): string {
+  const sections = reports[0]?.sections ?? [];
+  const header = [
+    'Name',
+    'Email',
+    'Joined',
+    ...sections.map(({ section, total }) => `${section} Lessons Completed (of ${total})`),
+    'Drills Checked',
+    'Drill Score',
+    'Drill Total',
+    'Drill %',
+    'Flashcards Scheduled',
+    'Current Review Streak (days)',
+    'Longest Review Streak (days)',
+    'Last Active',
+  ];
+  const rows = reports.map((report) => [
+    report.name,
+    report.email,
+    report.joinedAt,
+    ...report.sections.map(({ completed }) => String(completed)),
+    String(report.drills.checked),
+    String(report.drills.score),
+    String(report.drills.total),
+    String(drillPercent(report) ?? ''),
+    String(report.cardsScheduled),
+    String(report.currentStreak),
+    String(report.longestStreak),
+    report.lastActiveAt ?? '',
+  ]);
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,68 @@
+/**
+ * Continue Card
+ *
+ * Fills in the home page "continue where you left off" card from the
+ * most recently opened lesson. Once that lesson is complete the card
+ * suggests the next incomplete one instead.
+ */
+
+import { t } from '../i18n/client';
+import { loadProgress, readLocalProgress, type ProgressData } from './index';
+
+interface LessonSummary {
+  slug: string;
+  title: string;
+  section: string;
+  href: string;
+}
+
+function byId(id: string): HTMLElement {
+  return document.getElementById(id) as HTMLElement;
+}
+
+function render(card: HTMLElement, lessons: LessonSummary[], progress: ProgressData): void {
+  const lastSlug = progress.lastLesson?.slug;
+  const lastIndex = lessons.findIndex((lesson) => lesson.slug === lastSlug);
+  if (lastIndex === -1) {
+    card.hidden = true;
+    return;
+  }
+
+  let lesson = lessons[lastIndex];
+  let resuming = !progress.lessons[lesson.slug]?.completed;
+  if (!resuming) {
+    const next = lessons
+      .slice(lastIndex + 1)
+      .find((candidate) => !progress.lessons[candidate.slug]?.completed);
+    // Everything after the last lesson is done: nothing to continue
+    if (!next) {
+      card.hidden = true;
+      return;
+    }
+    lesson = next;
+  }
+
+  const depth = resuming ? (progress.lessons[lesson.slug]?.scrollDepth ?? 0) : 0;
+  const percent = Math.round(depth * 100);
+
+  (byId('continue-card-link') as HTMLAnchorElement).href = lesson.href;
+  byId('continue-card-section').textContent = lesson.section;
+  byId('continue-card-title').textContent = lesson.title;
+  byId('continue-card-fill').style.width = `${percent}%`;
+  byId('continue-card-status').textContent = resuming
+    ? t('course.percentRead', { percent })
+    : t('course.upNext');
+  card.hidden = false;
+}
+
+export function initContinueCard(): void {
+  const card = document.getElementById('continue-card');
+  const data = document.getElementById('continue-card-lessons');
+  if (!card || !data) return;
+
+  const lessons = JSON.parse(data.textContent ?? '[]') as LessonSummary[];
+  render(card, lessons, readLocalProgress());
+  loadProgress()
+    .then((progress) => render(card, lessons, progress))
+    .catch(() => {});
+}
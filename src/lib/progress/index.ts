@@ -0,0 +1,150 @@
+/**
+ * Lesson Progress
+ *
+ * Entry point used by the lesson page, sidebar and home page:
+ * - Reads render from the local copy first, then from the account
+ * - Writes go to the local store at once and to KV shortly after
+ *   (batched, so scrolling does not flood the API)
+ * - A `progress:updated` event tells other widgets to re-render
+ * - Changes that could not be sent (offline) are pushed once the
+ *   browser is back online
+ */
+
+import {
+  createKvProgressStore,
+  createLocalProgressStore,
+  diffProgress,
+  mergeProgress,
+  readLocalProgress,
+  type LessonProgress,
+  type ProgressData,
+} from './store';
+
+export type { DrillResult, LessonProgress, ProgressData } from './store';
+export { readLocalProgress } from './store';
+
+export const PROGRESS_UPDATED_EVENT = 'progress:updated';
+
+const REMOTE_SAVE_DELAY = 2000;
+
+const localStore = createLocalProgressStore();
+const kvStore = createKvProgressStore();
+
+let loadPromise: Promise<ProgressData> | null = null;
+let pendingChanges: ProgressData | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | undefined;
+let syncQueued = false;
+
+function announce(progress: ProgressData): void {
+  document.dispatchEvent(new CustomEvent(PROGRESS_UPDATED_EVENT, { detail: progress }));
+}
+
+/**
+ * Sync again when the connection comes back. Everything is already in the
+ * local store, and loading pushes whatever the account is missing.
+ */
+function syncWhenOnline(): void {
+  if (syncQueued) return;
+  syncQueued = true;
+  window.addEventListener(
+    'online',
+    () => {
+      syncQueued = false;
+      loadPromise = null;
+      loadProgress();
+    },
+    { once: true },
+  );
+}
+
+/** Progress from the account merged with this device (loaded once per page) */
+export function loadProgress(): Promise<ProgressData> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      const local = await localStore.load();
+      try {
+        let remote = await kvStore.load();
+        // Push anything recorded on this device while offline
+        const unsynced = diffProgress(local, remote);
+        if (unsynced) remote = await kvStore.save(unsynced);
+
+        const merged = await localStore.save(remote);
+        announce(merged);
+        return merged;
+      } catch (error) {
+        console.warn('Using lesson progress saved on this device:', error);
+        syncWhenOnline();
+        return local;
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/** Send batched changes to the account now */
+export function flushProgress(options: { keepalive?: boolean } = {}): void {
+  clearTimeout(saveTimer);
+  if (!pendingChanges) return;
+
+  const changes = pendingChanges;
+  pendingChanges = null;
+  kvStore.save(changes, options).catch((error) => {
+    // Stays in the local store; pushed again once back online
+    console.warn('Progress saved on this device only:', error);
+    syncWhenOnline();
+  });
+}
+
+async function saveChanges(changes: ProgressData): Promise<ProgressData> {
+  const merged = await localStore.save(changes);
+  announce(merged);
+
+  pendingChanges = pendingChanges ? mergeProgress(pendingChanges, changes) : changes;
+  clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => flushProgress(), REMOTE_SAVE_DELAY);
+  return merged;
+}
+
+export async function updateLessonProgress(
+  slug: string,
+  update: Partial<Omit<LessonProgress, 'updatedAt'>>,
+): Promise<ProgressData> {
+  const current = {
+    ...(readLocalProgress().lessons[slug] ?? { scrollDepth: 0, completed: false }),
+  };
+  // Marking a lesson by hand replaces what the placement test recorded
+  if (update.completed !== undefined) delete current.testedOut;
+  const progress: LessonProgress = {
+    ...current,
+    ...update,
+    updatedAt: new Date().toISOString(),
+  };
+  return saveChanges({ lessons: { [slug]: progress } });
+}
+
+/** Complete the lessons the placement test skipped; finished lessons stay as they are */
+export function markLessonsTestedOut(slugs: string[]): Promise<ProgressData> {
+  const { lessons } = readLocalProgress();
+  const updatedAt = new Date().toISOString();
+  const changes = Object.fromEntries(
+    slugs
+      .filter((slug) => !lessons[slug]?.completed)
+      .map((slug): [string, LessonProgress] => [
+        slug,
+        {
+          ...(lessons[slug] ?? { scrollDepth: 0 }),
+          completed: true,
+          testedOut: true,
+          updatedAt,
+        },
+      ]),
+  );
+  return saveChanges({ lessons: changes });
+}
+
+export function recordLessonVisit(slug: string): Promise<ProgressData> {
+  return saveChanges({
+    lessons: {},
+    lastLesson: { slug, visitedAt: new Date().toISOString() },
+  });
+}
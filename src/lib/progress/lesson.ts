@@ -0,0 +1,99 @@
+/**
+ * Lesson Page Progress
+ *
+ * Runs on lesson pages:
+ * - Records the visit for "continue where you left off"
+ * - Tracks the furthest point scrolled (never decreases)
+ * - "Mark as complete" toggle; reaching the end does not complete a
+ *   lesson by itself. It also follows changes made elsewhere (the
+ *   command palette, another tab's sync) and shows lessons completed by
+ *   the placement test as tested out
+ */
+
+import { t } from '../i18n/client';
+import {
+  PROGRESS_UPDATED_EVENT,
+  flushProgress,
+  readLocalProgress,
+  recordLessonVisit,
+  updateLessonProgress,
+  type LessonProgress,
+  type ProgressData,
+} from './index';
+
+/** Scroll depth is stored in steps so small scrolls do not trigger saves */
+const DEPTH_STEP = 0.05;
+
+let cleanup: (() => void) | null = null;
+
+function measureDepth(article: HTMLElement): number {
+  const rect = article.getBoundingClientRect();
+  const scrollable = rect.height - window.innerHeight;
+  if (scrollable <= 0) return 1;
+
+  const depth = Math.min(1, Math.max(0, -rect.top / scrollable));
+  return Math.floor(depth / DEPTH_STEP) * DEPTH_STEP;
+}
+
+function renderToggle(button: HTMLButtonElement, progress: LessonProgress | undefined): void {
+  const completed = progress?.completed ?? false;
+  button.setAttribute('aria-pressed', String(completed));
+  if (!completed) button.textContent = t('lesson.markComplete');
+  else button.textContent = t(progress?.testedOut ? 'lesson.testedOut' : 'lesson.completed');
+}
+
+export function initLessonProgress(): void {
+  cleanup?.();
+  cleanup = null;
+
+  const article = document.querySelector('[data-lesson-slug]') as HTMLElement | null;
+  const slug = article?.dataset.lessonSlug;
+  if (!article || !slug) return;
+
+  recordLessonVisit(slug).catch(() => {});
+
+  let recordedDepth = readLocalProgress().lessons[slug]?.scrollDepth ?? 0;
+  let frame = 0;
+
+  const onScroll = () => {
+    if (frame) return;
+    frame = requestAnimationFrame(() => {
+      frame = 0;
+      const depth = measureDepth(article);
+      if (depth <= recordedDepth) return;
+      recordedDepth = depth;
+      updateLessonProgress(slug, { scrollDepth: depth }).catch(() => {});
+    });
+  };
+
+  // Send any batched update before the page goes away
+  const onPageHide = () => flushProgress({ keepalive: true });
+
+  window.addEventListener('scroll', onScroll, { passive: true });
+  window.addEventListener('pagehide', onPageHide);
+  cleanup = () => {
+    window.removeEventListener('scroll', onScroll);
+    window.removeEventListener('pagehide', onPageHide);
+    cancelAnimationFrame(frame);
+  };
+
+  const toggle = document.getElementById('lesson-complete-toggle') as HTMLButtonElement | null;
+  if (!toggle) return;
+
+  renderToggle(toggle, readLocalProgress().lessons[slug]);
+  toggle.addEventListener('click', () => {
+    const completed = toggle.getAttribute('aria-pressed') !== 'true';
+    updateLessonProgress(slug, { completed }).catch(() => {});
+  });
+
+  const onProgressUpdated = (event: Event) => {
+    const { lessons } = (event as CustomEvent<ProgressData>).detail;
+    renderToggle(toggle, lessons[slug]);
+  };
+  document.addEventListener(PROGRESS_UPDATED_EVENT, onProgressUpdated);
+  const removeScrollListeners = cleanup;
+  cleanup = () => {
+    removeScrollListeners?.();
+    document.removeEventListener(PROGRESS_UPDATED_EVENT, onProgressUpdated);
+  };
+}
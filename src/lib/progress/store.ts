@@ -0,0 +1,124 @@
+/**
+ * Progress Storage
+ *
+ * Lesson progress behind a small storage interface, with two
+ * implementations:
+ * - Local: localStorage on this device (lib/storage.ts), per user
+ *   (see lib/auth/client.ts)
+ * - KV: the signed-in user's account, through /api/progress
+ *
+ * Both merge incoming changes the same way: per lesson, the most
+ * recently updated record wins.
+ */
+
+import { USER_STORAGE_NAMES, userStorageKey } from '../auth/client';
+import { readJson, writeJson } from '../storage';
+
+export interface DrillResult {
+  score: number;
+  total: number;
+  /** ISO timestamp of the latest check */
+  checkedAt: string;
+}
+
+export interface LessonProgress {
+  /** Furthest point read, 0–1 */
+  scrollDepth: number;
+  completed: boolean;
+  /** Completed by the placement test (/placement) rather than by the learner */
+  testedOut?: boolean;
+  /** Latest practice drill scores, by drill ID */
+  drills?: Record<string, DrillResult>;
+  /** ISO timestamp; the newest record wins when merging */
+  updatedAt: string;
+}
+
+export interface ProgressData {
+  lessons: Record<string, LessonProgress>;
+  /** Most recently opened lesson, for "continue where you left off" */
+  lastLesson?: { slug: string; visitedAt: string };
+}
+
+export interface ProgressStore {
+  load(): Promise<ProgressData>;
+  /** Merge changes into the stored data and return the result */
+  save(changes: ProgressData, options?: { keepalive?: boolean }): Promise<ProgressData>;
+}
+
+const PROGRESS_ENDPOINT = '/api/progress';
+
+export function emptyProgress(): ProgressData {
+  return { lessons: {} };
+}
+
+export function mergeProgress(base: ProgressData, changes: ProgressData): ProgressData {
+  const lessons = { ...base.lessons };
+  Object.entries(changes.lessons).forEach(([slug, progress]) => {
+    if (!lessons[slug] || lessons[slug].updatedAt < progress.updatedAt) lessons[slug] = progress;
+  });
+
+  const lastLesson =
+    !base.lastLesson ||
+    (changes.lastLesson && base.lastLesson.visitedAt < changes.lastLesson.visitedAt)
+      ? (changes.lastLesson ?? base.lastLesson)
+      : base.lastLesson;
+
+  return lastLesson ? { lessons, lastLesson } : { lessons };
+}
+
+/** Changes in `source` that `target` does not have yet */
+export function diffProgress(source: ProgressData, target: ProgressData): ProgressData | null {
+  const lessons = Object.fromEntries(
+    Object.entries(source.lessons).filter(
+      ([slug, progress]) =>
+        !target.lessons[slug] || target.lessons[slug].updatedAt < progress.updatedAt,
+    ),
+  );
+  const lastLessonIsNewer =
+    source.lastLesson &&
+    (!target.lastLesson || target.lastLesson.visitedAt < source.lastLesson.visitedAt);
+
+  if (Object.keys(lessons).length === 0 && !lastLessonIsNewer) return null;
+  return lastLessonIsNewer ? { lessons, lastLesson: source.lastLesson } : { lessons };
+}
+
+/** Synchronous read of the local copy, for rendering before the network */
+export function readLocalProgress(): ProgressData {
+  const stored = readJson<Partial<ProgressData>>(userStorageKey(USER_STORAGE_NAMES.progress), {});
+  return { ...emptyProgress(), ...stored };
+}
+
+export function createLocalProgressStore(): ProgressStore {
+  return {
+    async load() {
+      return readLocalProgress();
+    },
+    async save(changes) {
+      const merged = mergeProgress(readLocalProgress(), changes);
+      writeJson(userStorageKey(USER_STORAGE_NAMES.progress), merged);
+      return merged;
+    },
+  };
+}
+
+export function createKvProgressStore(): ProgressStore {
+  return {
+    async load() {
+      const response = await fetch(PROGRESS_ENDPOINT, { credentials: 'same-origin' });
+      if (!response.ok) throw new Error(`Loading progress failed: ${response.status}`);
+      return (await response.json()) as ProgressData;
+    },
+    async save(changes, options = {}) {
+      const response = await fetch(PROGRESS_ENDPOINT, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify(changes),
+        // Lets the last update go out while the page unloads
+        keepalive: options.keepalive,
+      });
+      if (!response.ok) throw new Error(`Saving progress failed: ${response.status}`);
+      return (await response.json()) as ProgressData;
+    },
+  };
+}
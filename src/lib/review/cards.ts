@@ -0,0 +1,93 @@
+/**
+ * Flashcards
+ *
+ * Turns each lesson's `vocabulary` entries into flashcards in up to
+ * three directions (Spanish→English, English→Spanish, IPA→word). Card
+ * IDs are stable across deploys so review history survives edits to
+ * other words. Words whose slugs collide ("año" and "ano") get a numbered
+ * suffix after the first, so IDs already in saved schedules never change.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { slugify, wordSlug } from '../text';
+
+export type CardDirection = 'es-en' | 'en-es' | 'ipa-es';
+
+export const CARD_DIRECTIONS: readonly CardDirection[] = ['es-en', 'en-es', 'ipa-es'];
+
+export interface Flashcard {
+  id: string;
+  direction: CardDirection;
+  prompt: string;
+  answer: string;
+  /** Shown with the answer: IPA, the other language, usage notes */
+  details: string[];
+  lessonSlug: string;
+  lessonTitle: string;
+  section: string;
+}
+
+export function buildFlashcards(lessons: CollectionEntry<'lessons'>[]): Flashcard[] {
+  const cards = new Map<string, Flashcard>();
+  // ID base → the word it was given to, as wordSlug()
+  const idWords = new Map<string, string>();
+  const sorted = [...lessons].sort((a, b) => a.data.order - b.data.order);
+
+  for (const lesson of sorted) {
+    const base = {
+      lessonSlug: lesson.slug,
+      lessonTitle: lesson.data.title,
+      section: lesson.data.section,
+    };
+
+    for (const word of lesson.data.vocabulary ?? []) {
+      const { spanish, english, ipa, notes } = word;
+      if (!spanish || !english) continue;
+
+      const wordKey = wordSlug(spanish);
+      const slug = `${lesson.slug}:${slugify(spanish)}`;
+      let idBase = slug;
+      for (let n = 2; idWords.has(idBase) && idWords.get(idBase) !== wordKey; n += 1) {
+        idBase = `${slug}-${n}`;
+      }
+      idWords.set(idBase, wordKey);
+
+      const notesDetail = notes ? [notes] : [];
+      const candidates: Flashcard[] = [
+        {
+          ...base,
+          id: `${idBase}:es-en`,
+          direction: 'es-en',
+          prompt: spanish,
+          answer: english,
+          details: [...(ipa ? [ipa] : []), ...notesDetail],
+        },
+        {
+          ...base,
+          id: `${idBase}:en-es`,
+          direction: 'en-es',
+          prompt: english,
+          answer: spanish,
+          details: [...(ipa ? [ipa] : []), ...notesDetail],
+        },
+      ];
+
+      if (ipa) {
+        candidates.push({
+          ...base,
+          id: `${idBase}:ipa-es`,
+          direction: 'ipa-es',
+          prompt: ipa,
+          answer: spanish,
+          details: [english, ...notesDetail],
+        });
+      }
+
+      candidates.forEach((card) => {
+        if (!cards.has(card.id)) cards.set(card.id, card);
+      });
+    }
+  }
+
+  return [...cards.values()];
+}
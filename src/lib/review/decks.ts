@@ -0,0 +1,90 @@
+/**
+ * Review Decks
+ *
+ * Decks are filters over the full card list:
+ * - `due`: everything due today across all lessons
+ * - `section:<name>`: one course section (Foundation, ...)
+ * - `lesson:<slug>`: a single lesson
+ *
+ * A session shows due cards first, then a limited number of new ones.
+ */
+
+import type { CardDirection, Flashcard } from './cards';
+import { isDue, type CardState } from './sm2';
+
+export type ReviewStates = Record<string, CardState>;
+
+export const DUE_DECK_ID = 'due';
+export const NEW_CARDS_PER_SESSION = 20;
+
+export interface DeckCounts {
+  due: number;
+  new: number;
+}
+
+export function sectionDeckId(section: string): string {
+  return `section:${section}`;
+}
+
+export function lessonDeckId(slug: string): string {
+  return `lesson:${slug}`;
+}
+
+export function reviewHref(deckId: string): string {
+  return `/review?deck=${encodeURIComponent(deckId)}`;
+}
+
+/** Combine two sets of card states; the most recently reviewed wins */
+export function mergeStates(base: ReviewStates, updates: ReviewStates): ReviewStates {
+  const merged = { ...base };
+  Object.entries(updates).forEach(([id, state]) => {
+    if (!merged[id] || merged[id].lastReviewed < state.lastReviewed) merged[id] = state;
+  });
+  return merged;
+}
+
+function inDeck(card: Flashcard, deckId: string): boolean {
+  if (deckId === DUE_DECK_ID) return true;
+  if (deckId.startsWith('section:')) return card.section === deckId.slice('section:'.length);
+  if (deckId.startsWith('lesson:')) return card.lessonSlug === deckId.slice('lesson:'.length);
+  return false;
+}
+
+function deckCards(cards: Flashcard[], deckId: string, directions: CardDirection[]): Flashcard[] {
+  return cards.filter((card) => directions.includes(card.direction) && inDeck(card, deckId));
+}
+
+export function countDeck(
+  cards: Flashcard[],
+  states: ReviewStates,
+  deckId: string,
+  directions: CardDirection[],
+  now = new Date(),
+): DeckCounts {
+  const counts: DeckCounts = { due: 0, new: 0 };
+  deckCards(cards, deckId, directions).forEach((card) => {
+    const state = states[card.id];
+    if (!state) counts.new += 1;
+    else if (isDue(state, now)) counts.due += 1;
+  });
+  return counts;
+}
+
+/** Cards for one session: due reviews (most overdue first), then new cards */
+export function buildQueue(
+  cards: Flashcard[],
+  states: ReviewStates,
+  deckId: string,
+  directions: CardDirection[],
+  now = new Date(),
+): Flashcard[] {
+  const candidates = deckCards(cards, deckId, directions);
+
+  const due = candidates
+    .filter((card) => states[card.id] && isDue(states[card.id], now))
+    .sort((a, b) => states[a.id].due.localeCompare(states[b.id].due));
+
+  const fresh = candidates.filter((card) => !states[card.id]).slice(0, NEW_CARDS_PER_SESSION);
+
+  return [...due, ...fresh];
+}
@@ -0,0 +1,111 @@
+/**
+ * Spaced Repetition Scheduling
+ *
+ * SM-2 (SuperMemo 2) with four answer buttons:
+ * - "Again" restarts the card (due tomorrow) and keeps its ease
+ * - "Hard", "Good", "Easy" grow the interval (1 day, 6 days, then
+ *   interval × ease) and adjust the ease factor
+ *
+ * Due dates are local calendar days, so "due today" means today for
+ * the learner regardless of time zone.
+ */
+
+import type { Translator } from '../i18n';
+
+export type Grade = 'again' | 'hard' | 'good' | 'easy';
+
+export const GRADES: readonly Grade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface CardState {
+  /** SM-2 ease factor (≥ 1.3) */
+  ease: number;
+  /** Days until the next review */
+  interval: number;
+  /** Successful reviews in a row */
+  repetitions: number;
+  /** Times the card was forgotten after being learned */
+  lapses: number;
+  /** Local date of the next review, YYYY-MM-DD */
+  due: string;
+  /** ISO timestamp of the last review; newer wins when syncing */
+  lastReviewed: string;
+  /** Local date of the last review, YYYY-MM-DD (counted for streaks) */
+  reviewedOn?: string;
+}
+
+/** SM-2 response quality (0-5) for each button */
+const GRADE_QUALITY: Record<Grade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const FIRST_INTERVAL = 1;
+const SECOND_INTERVAL = 6;
+
+/** Local calendar date as YYYY-MM-DD */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function isDue(state: CardState, now = new Date()): boolean {
+  return state.due <= toDateKey(now);
+}
+
+/** Schedule the next review of a card (new cards have no state yet) */
+export function reviewCard(
+  state: CardState | undefined,
+  grade: Grade,
+  now = new Date(),
+): CardState {
+  const quality = GRADE_QUALITY[grade];
+  let ease = state?.ease ?? INITIAL_EASE;
+  let interval: number;
+  let repetitions = state?.repetitions ?? 0;
+  let lapses = state?.lapses ?? 0;
+
+  if (quality < 3) {
+    // Forgotten: start over without changing the ease
+    if (repetitions > 0) lapses += 1;
+    repetitions = 0;
+    interval = FIRST_INTERVAL;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) {
+      interval = FIRST_INTERVAL;
+    } else if (repetitions === 2) {
+      interval = SECOND_INTERVAL;
+    } else {
+      interval = Math.round((state?.interval ?? SECOND_INTERVAL) * ease);
+    }
+    ease = Math.max(MIN_EASE, ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  }
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    due: toDateKey(addDays(now, interval)),
+    lastReviewed: now.toISOString(),
+    reviewedOn: toDateKey(now),
+  };
+}
+
+/** "1 day", "6 days", "3 mo" — for the answer buttons, in the translator's locale */
+export function formatInterval(days: number, { plural }: Pick<Translator, 'plural'>): string {
+  if (days < 30) return plural('review.interval.days', days);
+  if (days < 365) return plural('review.interval.months', Math.round(days / 30));
+  return plural('review.interval.years', Math.round((days / 365) * 10) / 10);
+}
@@ -0,0 +1,77 @@
+/**
+ * Review State Storage
+ *
+ * Card schedules are kept in the signed-in user's account (KV, via
+ * /api/review) and mirrored in localStorage, per user (see
+ * lib/auth/client.ts):
+ * - The local copy makes reviews work offline or when the API fails
+ * - Reviews made offline are pushed on the next successful load
+ * - Conflicts resolve per card: the latest review wins
+ */
+
+import { USER_STORAGE_NAMES, userStorageKey } from '../auth/client';
+import { readJson, writeJson } from '../storage';
+import { mergeStates, type ReviewStates } from './decks';
+
+const REVIEW_ENDPOINT = '/api/review';
+
+/** Where the latest changes ended up */
+export type SyncStatus = 'account' | 'device';
+
+function readLocal(): ReviewStates {
+  return readJson<ReviewStates>(userStorageKey(USER_STORAGE_NAMES.review), {});
+}
+
+function writeLocal(states: ReviewStates): void {
+  writeJson(userStorageKey(USER_STORAGE_NAMES.review), states);
+}
+
+async function pushRemote(updates: ReviewStates): Promise<ReviewStates> {
+  const response = await fetch(REVIEW_ENDPOINT, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'same-origin',
+    body: JSON.stringify({ states: updates }),
+  });
+  if (!response.ok) throw new Error(`Saving reviews failed: ${response.status}`);
+  return ((await response.json()) as { states: ReviewStates }).states;
+}
+
+export async function loadReviewStates(): Promise<{ states: ReviewStates; status: SyncStatus }> {
+  const local = readLocal();
+
+  try {
+    const response = await fetch(REVIEW_ENDPOINT, { credentials: 'same-origin' });
+    if (!response.ok) throw new Error(`Loading reviews failed: ${response.status}`);
+    let remote = ((await response.json()) as { states: ReviewStates }).states;
+
+    // Reviews made on this device while offline
+    const unsynced = Object.fromEntries(
+      Object.entries(local).filter(
+        ([id, state]) => !remote[id] || remote[id].lastReviewed < state.lastReviewed,
+      ),
+    );
+    if (Object.keys(unsynced).length > 0) {
+      remote = await pushRemote(unsynced);
+    }
+
+    const states = mergeStates(local, remote);
+    writeLocal(states);
+    return { states, status: 'account' };
+  } catch (error) {
+    console.warn('Using review progress saved on this device:', error);
+    return { states: local, status: 'device' };
+  }
+}
+
+export async function saveReviewStates(updates: ReviewStates): Promise<SyncStatus> {
+  writeLocal(mergeStates(readLocal(), updates));
+
+  try {
+    await pushRemote(updates);
+    return 'account';
+  } catch (error) {
+    console.warn('Review saved on this device only:', error);
+    return 'device';
+  }
+}
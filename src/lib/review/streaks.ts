@@ -0,0 +1,65 @@
+/**
+ * Review Streaks
+ *
+ * The days a student reviewed flashcards, kept next to their schedule so
+ * the class dashboard can show streaks:
+ * - Days are the student's local dates (YYYY-MM-DD), from each card's
+ *   `reviewedOn`; schedules saved before it existed fall back to the UTC
+ *   date of `lastReviewed`
+ * - Only the most recent REVIEW_DAYS_KEPT days are stored
+ * - A streak is a run of consecutive review days; the current one counts
+ *   until a whole day passes without reviews. The server does not know the
+ *   student's time zone, so "today" is any date that is today somewhere
+ */
+
+import type { ReviewStates } from './decks';
+
+export const REVIEW_DAYS_KEPT = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function utcDay(timestamp: string | Date): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function previousDay(day: string): string {
+  return utcDay(new Date(Date.parse(day) - DAY_MS));
+}
+
+function nextDay(day: string): string {
+  return utcDay(new Date(Date.parse(day) + DAY_MS));
+}
+
+/** Add the days of the given reviews to a sorted list of review days */
+export function addReviewDays(days: string[], updates: ReviewStates): string[] {
+  const merged = new Set(days);
+  Object.values(updates).forEach((state) =>
+    merged.add(state.reviewedOn ?? utcDay(state.lastReviewed)),
+  );
+  return [...merged].sort().slice(-REVIEW_DAYS_KEPT);
+}
+
+/** Consecutive review days ending today, or yesterday if today has none yet */
+export function currentStreak(days: string[], now = new Date()): number {
+  const reviewed = new Set(days);
+  const today = utcDay(now);
+  // Local dates run up to a day either side of the UTC date
+  let day = [nextDay(today), today, previousDay(today)].find((d) => reviewed.has(d)) ?? today;
+
+  let streak = 0;
+  while (reviewed.has(day)) {
+    streak += 1;
+    day = previousDay(day);
+  }
+  return streak;
+}
+
+export function longestStreak(days: string[]): number {
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && previousDay(day) === days[index - 1] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+}
@@ -0,0 +1,238 @@
+/**
+ * Review Session UI
+ *
+ * Drives the /review page:
+ * - Deck picker with due/new counts, direction toggles
+ * - Card loop: Space shows the answer, 1-4 grade it
+ * - Cards answered "Again" come back later in the same session
+ * - Each grade is saved immediately (account, or this device offline)
+ */
+
+import { plural, t } from '../i18n/client';
+import { getPreference, setPreference } from '../preferences';
+import type { CardDirection, Flashcard } from './cards';
+import { buildQueue, countDeck, DUE_DECK_ID, type ReviewStates } from './decks';
+import { formatInterval, GRADES, reviewCard, type Grade } from './sm2';
+import { loadReviewStates, saveReviewStates, type SyncStatus } from './store';
+
+interface SessionStats {
+  reviewed: number;
+  again: number;
+}
+
+// HTMLSelectElement conflicts with the Workers runtime types; only these members are used
+type SelectElement = HTMLElement & { value: string };
+
+function byId(id: string): HTMLElement {
+  return document.getElementById(id) as HTMLElement;
+}
+
+export async function initReview(): Promise<void> {
+  const root = byId('review-app');
+  const dataElement = byId('review-cards');
+  if (!root || !dataElement || root.dataset.initialized) return;
+  root.dataset.initialized = 'true';
+
+  const cards = JSON.parse(dataElement.textContent || '[]') as Flashcard[];
+
+  const setup = byId('review-setup');
+  const deckSelect = document.getElementById('review-deck') as SelectElement;
+  const directionInputs = Array.from(
+    root.querySelectorAll<HTMLInputElement>('input[name="review-direction"]'),
+  );
+  const startButton = document.getElementById('review-start') as HTMLButtonElement;
+  const deckCounts = byId('review-deck-counts');
+  const syncStatus = byId('review-sync-status');
+
+  const session = byId('review-session');
+  const progress = byId('review-progress');
+  const cardLesson = byId('review-card-lesson');
+  const cardDirection = byId('review-direction');
+  const prompt = byId('review-prompt');
+  const answer = byId('review-answer');
+  const answerText = byId('review-answer-text');
+  const details = byId('review-details');
+  const showButton = document.getElementById('review-show') as HTMLButtonElement;
+  const gradeButtons = byId('review-grades');
+  const endButton = document.getElementById('review-end') as HTMLButtonElement;
+
+  const summary = byId('review-summary');
+  const summaryText = byId('review-summary-text');
+  const restartButton = document.getElementById('review-restart') as HTMLButtonElement;
+
+  let states: ReviewStates = {};
+  let queue: Flashcard[] = [];
+  let current: Flashcard | null = null;
+  let stats: SessionStats = { reviewed: 0, again: 0 };
+
+  const selectedDirections = (): CardDirection[] =>
+    directionInputs.filter((input) => input.checked).map((input) => input.value as CardDirection);
+
+  const showSync = (status: SyncStatus) => {
+    syncStatus.textContent = t(`review.sync.${status}`);
+  };
+
+  const updateCounts = () => {
+    const directions = selectedDirections();
+
+    deckSelect.querySelectorAll('option').forEach((option) => {
+      const counts = countDeck(cards, states, option.value, directions);
+      option.textContent = t('review.deck.counts', {
+        deck: option.dataset.label ?? '',
+        due: counts.due,
+        new: counts.new,
+      });
+    });
+
+    const queueLength = buildQueue(cards, states, deckSelect.value, directions).length;
+    startButton.disabled = queueLength === 0;
+    deckCounts.textContent =
+      directions.length === 0
+        ? t('review.noDirections')
+        : queueLength === 0
+          ? t('review.nothingDue')
+          : plural('review.queue', queueLength);
+  };
+
+  const showCard = () => {
+    current = queue.shift() ?? null;
+    if (!current) {
+      finishSession();
+      return;
+    }
+
+    progress.textContent = `${stats.reviewed + 1} / ${stats.reviewed + queue.length + 1}`;
+    cardLesson.textContent = current.lessonTitle;
+    cardDirection.textContent = t(`review.prompt.${current.direction}`);
+    prompt.textContent = current.prompt;
+    prompt.lang = current.direction === 'en-es' ? 'en' : 'es';
+    prompt.classList.toggle('ipa', current.direction === 'ipa-es');
+    answerText.textContent = current.answer;
+    details.replaceChildren(
+      ...current.details.map((detail) => {
+        const item = document.createElement('li');
+        item.textContent = detail;
+        return item;
+      }),
+    );
+
+    // Preview the next interval for each grade
+    const state = states[current.id];
+    gradeButtons.querySelectorAll<HTMLButtonElement>('[data-grade]').forEach((button) => {
+      const next = reviewCard(state, button.dataset.grade as Grade);
+      const label = button.querySelector('[data-interval]');
+      if (label) label.textContent = formatInterval(next.interval, { plural });
+    });
+
+    answer.hidden = true;
+    gradeButtons.hidden = true;
+    showButton.hidden = false;
+    showButton.focus();
+  };
+
+  const revealAnswer = () => {
+    if (!current || !answer.hidden) return;
+    answer.hidden = false;
+    showButton.hidden = true;
+    gradeButtons.hidden = false;
+    gradeButtons.querySelector<HTMLButtonElement>('[data-grade="good"]')?.focus();
+  };
+
+  const grade = async (value: Grade) => {
+    if (!current || answer.hidden) return;
+    const card = current;
+    const next = reviewCard(states[card.id], value);
+    states = { ...states, [card.id]: next };
+
+    stats.reviewed += 1;
+    if (value === 'again') {
+      stats.again += 1;
+      // See it again at the end of this session
+      queue.push(card);
+    }
+
+    showCard();
+    showSync(await saveReviewStates({ [card.id]: next }));
+  };
+
+  const startSession = () => {
+    queue = buildQueue(cards, states, deckSelect.value, selectedDirections());
+    if (queue.length === 0) return;
+
+    stats = { reviewed: 0, again: 0 };
+    setup.hidden = true;
+    summary.hidden = true;
+    session.hidden = false;
+    showCard();
+  };
+
+  function finishSession() {
+    current = null;
+    session.hidden = true;
+    summary.hidden = false;
+    summaryText.textContent =
+      stats.reviewed === 0
+        ? t('review.noneReviewed')
+        : stats.again > 0
+          ? plural('review.reviewedAgain', stats.reviewed, { again: stats.again })
+          : plural('review.reviewed', stats.reviewed);
+    restartButton.focus();
+  }
+
+  const backToDecks = () => {
+    summary.hidden = true;
+    session.hidden = true;
+    setup.hidden = false;
+    updateCounts();
+  };
+
+  // Restore preferences and the requested deck (?deck=lesson:lesson-01)
+  const savedDirections = getPreference('reviewDirections');
+  directionInputs.forEach((input) => {
+    input.checked = savedDirections.includes(input.value as CardDirection);
+  });
+  const requestedDeck = new URL(window.location.href).searchParams.get('deck') ?? DUE_DECK_ID;
+  if (
+    Array.from(deckSelect.querySelectorAll('option')).some(
+      (option) => option.value === requestedDeck,
+    )
+  ) {
+    deckSelect.value = requestedDeck;
+  }
+
+  deckSelect.addEventListener('change', updateCounts);
+  directionInputs.forEach((input) =>
+    input.addEventListener('change', () => {
+      setPreference('reviewDirections', selectedDirections());
+      updateCounts();
+    }),
+  );
+  startButton.addEventListener('click', startSession);
+  showButton.addEventListener('click', revealAnswer);
+  gradeButtons.querySelectorAll<HTMLButtonElement>('[data-grade]').forEach((button) => {
+    button.addEventListener('click', () => grade(button.dataset.grade as Grade));
+  });
+  endButton.addEventListener('click', finishSession);
+  restartButton.addEventListener('click', backToDecks);
+
+  document.addEventListener('keydown', (e) => {
+    if (session.hidden || e.target instanceof HTMLInputElement || e.metaKey || e.ctrlKey) return;
+
+    if ((e.key === ' ' || e.key === 'Enter') && answer.hidden) {
+      e.preventDefault();
+      revealAnswer();
+      return;
+    }
+
+    const index = Number(e.key) - 1;
+    if (!answer.hidden && index >= 0 && index < GRADES.length) {
+      e.preventDefault();
+      grade(GRADES[index]);
+    }
+  });
+
+  const loaded = await loadReviewStates();
+  states = loaded.states;
+  showSync(loaded.status);
+  updateCounts();
+}
@@ -0,0 +1,149 @@
+/**
+ * Search Index Sources
+ *
+ * Reads what the search index needs straight from the content files, so
+ * the index can be built once at build time (src/integrations/search-index.ts)
+ * instead of on each worker's first search:
+ * - Lessons and cultural notes: markdown frontmatter and body
+ * - Verbs and idioms: YAML data files
+ * - IPA symbols: the inventory module the IPA guide's charts are drawn from
+ * - Static front-matter and appendix pages: their raw .astro source
+ *
+ * Node only. Files are not validated here; the content schema
+ * (src/content/config.ts) does that in the same build.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { basename, extname, join, relative } from 'node:path';
+import { slug as slugSegment } from 'github-slugger';
+import { parse as parseYaml } from 'yaml';
+import { DEFAULT_COURSE } from '../courses';
+import { IPA_INVENTORY } from '../ipa/inventory';
+import type {
+  CulturalNoteSource,
+  IdiomSource,
+  LessonSource,
+  SearchSources,
+  StaticPageSource,
+  VerbSource,
+} from './index-builder';
+
+// The glossary, verb tables, grammar reference, idioms and cultural notes
+// pages are generated from collections that are indexed separately.
+const STATIC_PAGE_DIRECTORIES = ['front-matter', 'appendices'];
+const GENERATED_PAGES = new Set([
+  'appendices/glossary.astro',
+  'appendices/verb-tables.astro',
+  'appendices/grammar-reference.astro',
+  'appendices/idioms.astro',
+  'appendices/cultural-notes.astro',
+]);
+const EXTRA_STATIC_PAGES = ['about.astro'];
+
+interface SourceFile {
+  /** Path relative to the collection directory, with forward slashes */
+  path: string;
+  source: string;
+}
+
+/** Files with the given extensions, skipping `_`-prefixed ones like Astro does */
+async function readCollection(directory: string, extensions: string[]): Promise<SourceFile[]> {
+  const entries = await readdir(directory, { withFileTypes: true, recursive: true }).catch(
+    () => [],
+  );
+  const paths = entries
+    .filter((entry) => entry.isFile() && extensions.includes(extname(entry.name)))
+    .map((entry) => relative(directory, join(entry.parentPath, entry.name)).split(/[\\/]/))
+    .filter((parts) => !parts.some((part) => part.startsWith('_')))
+    .map((parts) => parts.join('/'))
+    .sort();
+
+  return Promise.all(
+    paths.map(async (path) => ({ path, source: await readFile(join(directory, path), 'utf8') })),
+  );
+}
+
+function withoutExtension(path: string): string {
+  return path.slice(0, -extname(path).length);
+}
+
+/** Entry slug as Astro's legacy content collections make it */
+function entrySlug(path: string, frontmatter: Record<string, unknown>): string {
+  if (typeof frontmatter.slug === 'string') return frontmatter.slug;
+  return withoutExtension(path)
+    .split('/')
+    .map((segment) => slugSegment(segment))
+    .join('/');
+}
+
+function parseMarkdown(source: string): { data: Record<string, unknown>; body: string } {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { data: {}, body: source };
+  return { data: parseYaml(match[1]) ?? {}, body: source.slice(match[0].length) };
+}
+
+async function readLessons(contentDirectory: string): Promise<LessonSource[]> {
+  const files = await readCollection(join(contentDirectory, 'lessons'), ['.md', '.mdx']);
+  return files.map(({ path, source }) => {
+    const { data, body } = parseMarkdown(source);
+    return {
+      slug: entrySlug(path, data),
+      course: (data.course as string | undefined) ?? DEFAULT_COURSE,
+      title: String(data.title ?? ''),
+      description: String(data.description ?? ''),
+      vocabulary: (data.vocabulary as LessonSource['vocabulary'] | undefined) ?? [],
+      grammarTopics: (data.grammarTopics as string[] | undefined) ?? [],
+      body,
+    };
+  });
+}
+
+async function readDataCollection<T>(directory: string): Promise<Array<T & { id: string }>> {
+  const files = await readCollection(directory, ['.yaml', '.yml', '.json']);
+  return files.map(({ path, source }) => ({
+    ...(parseYaml(source) as T),
+    id: withoutExtension(path),
+  }));
+}
+
+async function readCulturalNotes(contentDirectory: string): Promise<CulturalNoteSource[]> {
+  const files = await readCollection(join(contentDirectory, 'culturalNotes'), ['.md', '.mdx']);
+  return files.map(({ path, source }) => {
+    const { data, body } = parseMarkdown(source);
+    return {
+      slug: entrySlug(path, data),
+      title: String(data.title ?? ''),
+      summary: String(data.summary ?? ''),
+      body,
+    };
+  });
+}
+
+async function readStaticPages(pagesDirectory: string): Promise<StaticPageSource[]> {
+  const pages: StaticPageSource[] = [];
+  for (const directory of STATIC_PAGE_DIRECTORIES) {
+    const files = await readCollection(join(pagesDirectory, directory), ['.astro']);
+    files
+      .map(({ path, source }) => ({ path: `${directory}/${path}`, source }))
+      .filter(({ path }) => !GENERATED_PAGES.has(path))
+      .forEach(({ path, source }) => pages.push({ href: `/${withoutExtension(path)}`, source }));
+  }
+  for (const file of EXTRA_STATIC_PAGES) {
+    const source = await readFile(join(pagesDirectory, file), 'utf8');
+    pages.push({ href: `/${basename(file, '.astro')}`, source });
+  }
+  return pages;
+}
+
+/** @param srcDirectory - The project's src/ directory */
+export async function readSearchSources(srcDirectory: string): Promise<SearchSources> {
+  const contentDirectory = join(srcDirectory, 'content');
+  const [lessons, verbs, idioms, culturalNotes, staticPages] = await Promise.all([
+    readLessons(contentDirectory),
+    readDataCollection<Omit<VerbSource, 'id'>>(join(contentDirectory, 'verbs')),
+    readDataCollection<Omit<IdiomSource, 'id'>>(join(contentDirectory, 'idioms')),
+    readCulturalNotes(contentDirectory),
+    readStaticPages(join(srcDirectory, 'pages')),
+  ]);
+  return { lessons, verbs, idioms, culturalNotes, ipaSymbols: IPA_INVENTORY, staticPages };
+}
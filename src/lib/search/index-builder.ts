@@ -0,0 +1,330 @@
+/**
+ * Search Index Builder
+ *
+ * Builds the site-wide search index from:
+ * - Lesson bodies, split into one document per heading (deep links)
+ * - Lesson vocabulary and grammar topics
+ * - The verbs collection
+ * - The idioms and cultural notes collections
+ * - The IPA inventory, one document per symbol of the IPA guide's charts
+ * - Static front-matter and appendix pages (read from their .astro source)
+ *
+ * Runs once at build time on the raw content files (content-source.ts,
+ * through the search index integration); /api/search serves the result.
+ */
+
+import GithubSlugger from 'github-slugger';
+import { verbTableHref } from '../verbs/paradigm';
+import { parseDialogue } from '../dialogue/parse';
+import { culturalNoteHref, idiomHref } from '../appendices/entries';
+import { lessonHref } from '../courses';
+import { displaySymbol, ipaSymbolHref, type IpaSymbol } from '../ipa/inventory';
+
+export type SearchDocumentKind = 'lesson' | 'vocabulary' | 'verb' | 'page';
+
+export interface SearchDocument {
+  id: string;
+  kind: SearchDocumentKind;
+  title: string;
+  /** Secondary label, e.g. the heading or the lesson a word comes from */
+  context?: string;
+  href: string;
+  text: string;
+}
+
+export interface LessonSource {
+  slug: string;
+  course: string;
+  title: string;
+  description: string;
+  vocabulary: Array<{ spanish: string; english?: string; ipa?: string; notes?: string }>;
+  grammarTopics: string[];
+  /** Markdown body, without the frontmatter */
+  body: string;
+}
+
+export interface VerbSource {
+  id: string;
+  infinitive: string;
+  english: string;
+  notes?: string;
+}
+
+export interface IdiomSource {
+  id: string;
+  expression: string;
+  meaning: string;
+  literal?: string;
+  notes?: string;
+}
+
+export interface CulturalNoteSource {
+  slug: string;
+  title: string;
+  summary: string;
+  body: string;
+}
+
+export interface StaticPageSource {
+  /** Page URL, e.g. /front-matter/preface */
+  href: string;
+  /** Raw .astro source */
+  source: string;
+}
+
+export interface SearchSources {
+  lessons: LessonSource[];
+  verbs: VerbSource[];
+  idioms: IdiomSource[];
+  culturalNotes: CulturalNoteSource[];
+  ipaSymbols: IpaSymbol[];
+  staticPages: StaticPageSource[];
+}
+
+/** Dialogue block as "Speaker: line translation" text */
+function dialogueToText(block: string): string {
+  try {
+    return parseDialogue(block)
+      .map((line) => `${line.speaker}: ${line.spanish} ${line.english ?? ''}`)
+      .join(' ');
+  } catch {
+    return ' ';
+  }
+}
+
+/** Reduce markdown to plain text for indexing and snippets */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/```dialogue\s*\n([\s\S]*?)```/g, (_, block: string) => dialogueToText(block))
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*[-*+]\s+/gm, '')
+    .replace(/^\s*\d+\.\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*-{3,}\s*$/gm, ' ')
+    .replace(/\|/g, ' ')
+    .replace(/[*_`~#]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&[a-z]+;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Replace `{…}` template expressions (`{' '}`, `{t('…')}`) with a space */
+function stripExpressions(markup: string): string {
+  let text = '';
+  let depth = 0;
+  for (const char of markup) {
+    if (char === '{') {
+      if (depth === 0) text += ' ';
+      depth += 1;
+    } else if (char === '}' && depth > 0) {
+      depth -= 1;
+    } else if (depth === 0) {
+      text += char;
+    }
+  }
+  return text;
+}
+
+interface BodySection {
+  heading: string | null;
+  body: string;
+}
+
+/** Split a markdown body into sections at ATX headings, skipping code fences */
+function splitByHeadings(markdown: string): BodySection[] {
+  const sections: BodySection[] = [{ heading: null, body: '' }];
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (line.trim().startsWith('```')) inFence = !inFence;
+    const match = !inFence && line.match(/^#{1,6}\s+(.*)$/);
+    if (match) {
+      sections.push({ heading: match[1].trim(), body: '' });
+    } else {
+      sections[sections.length - 1].body += `${line}\n`;
+    }
+  }
+
+  return sections;
+}
+
+/** Heading anchors as Astro renders them: GitHub-style slugs, unique per page */
+function headingSlugger(): (heading: string) => string {
+  const slugger = new GithubSlugger();
+  return (heading) => slugger.slug(markdownToText(heading));
+}
+
+function buildLessonDocuments(lessons: LessonSource[]): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+
+  for (const lesson of lessons) {
+    const { title, description, vocabulary, grammarTopics } = lesson;
+    const pageHref = lessonHref(lesson.course, lesson.slug);
+    const slugHeading = headingSlugger();
+    const sections = splitByHeadings(lesson.body);
+
+    sections.forEach((section, index) => {
+      const text = markdownToText(section.body);
+
+      if (index === 0) {
+        documents.push({
+          id: `lesson:${lesson.slug}`,
+          kind: 'lesson',
+          title,
+          href: pageHref,
+          text: [description, grammarTopics.join(', '), text].filter(Boolean).join(' — '),
+        });
+        return;
+      }
+
+      // Slug every heading, even skipped ones, so later anchors keep their suffixes
+      const anchor = section.heading ? slugHeading(section.heading) : '';
+      if (!text && !section.heading) return;
+
+      documents.push({
+        id: `lesson:${lesson.slug}:${anchor || index}`,
+        kind: 'lesson',
+        title,
+        context: section.heading ?? undefined,
+        href: anchor ? `${pageHref}#${anchor}` : pageHref,
+        text,
+      });
+    });
+
+    vocabulary.forEach((word, index) => {
+      if (!word.spanish) return;
+      documents.push({
+        id: `vocabulary:${lesson.slug}:${index}`,
+        kind: 'vocabulary',
+        title: word.spanish,
+        context: title,
+        href: `${pageHref}#vocabulary`,
+        text: [word.english, word.ipa, word.notes].filter(Boolean).join(' — '),
+      });
+    });
+  }
+
+  return documents;
+}
+
+function buildVerbDocuments(verbs: VerbSource[]): SearchDocument[] {
+  return verbs.map((verb) => ({
+    id: `verb:${verb.id}`,
+    kind: 'verb' as const,
+    title: verb.infinitive,
+    context: 'Verb Conjugation Tables',
+    href: verbTableHref(verb.id),
+    text: [verb.english, verb.notes].filter(Boolean).join(' — '),
+  }));
+}
+
+function buildAppendixDocuments(
+  idioms: IdiomSource[],
+  notes: CulturalNoteSource[],
+): SearchDocument[] {
+  return [
+    ...idioms.map((idiom) => ({
+      id: `idiom:${idiom.id}`,
+      kind: 'page' as const,
+      title: idiom.expression,
+      context: 'Idioms & Expressions',
+      href: idiomHref(idiom.id),
+      text: [idiom.meaning, idiom.literal, idiom.notes].filter(Boolean).join(' — '),
+    })),
+    ...notes.map((note) => ({
+      id: `note:${note.slug}`,
+      kind: 'page' as const,
+      title: note.title,
+      context: 'Cultural Notes Compendium',
+      href: culturalNoteHref(note.slug),
+      text: `${note.summary} ${markdownToText(note.body)}`,
+    })),
+  ];
+}
+
+function buildIpaDocuments(symbols: IpaSymbol[]): SearchDocument[] {
+  return symbols.map((entry) => ({
+    id: `ipa:${entry.id}`,
+    kind: 'page' as const,
+    title: `${displaySymbol(entry)} — ${entry.name}`,
+    context: 'Guide to IPA Pronunciation',
+    href: ipaSymbolHref(entry),
+    text: [
+      entry.description,
+      entry.approximation,
+      ...entry.examples.map((example) => `${example.spanish} ${example.ipa} ${example.english}`),
+    ]
+      .filter(Boolean)
+      .join(' — '),
+  }));
+}
+
+function buildStaticPageDocuments(pages: StaticPageSource[]): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+
+  for (const { href, source } of pages) {
+    const title = source.match(/title="([^"]+)"/)?.[1] ?? href;
+
+    // Drop the frontmatter script, style/script blocks and template
+    // expressions, keep the markup
+    const markup = stripExpressions(
+      source
+        .replace(/^---[\s\S]*?---/, '')
+        .replace(/<style[\s\S]*?<\/style>/g, '')
+        .replace(/<script[\s\S]*?<\/script>/g, ''),
+    );
+
+    // Split at headings with an id so results deep-link to the section
+    const parts = markup.split(/(<h[2-4][^>]*>[\s\S]*?<\/h[2-4]>)/);
+    let currentHeading: { id?: string; text: string } | null = null;
+
+    for (const [index, part] of parts.entries()) {
+      const headingMatch = part.match(/^<h[2-4]([^>]*)>([\s\S]*?)<\/h[2-4]>$/);
+      if (headingMatch) {
+        currentHeading = {
+          id: headingMatch[1].match(/id="([^"]+)"/)?.[1],
+          text: htmlToText(headingMatch[2]),
+        };
+        continue;
+      }
+
+      const text = htmlToText(part);
+      if (!text) continue;
+
+      documents.push({
+        id: `page:${href}:${index}`,
+        kind: 'page',
+        title,
+        context: currentHeading?.text,
+        href: currentHeading?.id ? `${href}#${currentHeading.id}` : href,
+        text,
+      });
+    }
+  }
+
+  return documents;
+}
+
+export function buildSearchIndex(sources: SearchSources): SearchDocument[] {
+  return [
+    ...buildLessonDocuments(sources.lessons),
+    ...buildVerbDocuments(sources.verbs),
+    ...buildAppendixDocuments(sources.idioms, sources.culturalNotes),
+    ...buildIpaDocuments(sources.ipaSymbols),
+    ...buildStaticPageDocuments(sources.staticPages),
+  ];
+}
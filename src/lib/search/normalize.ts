@@ -0,0 +1,90 @@
+/**
+ * Search Normalization
+ *
+ * Accent-insensitive folding that keeps track of where each folded
+ * character came from, so matches can be highlighted in the original
+ * (accented) text.
+ */
+
+import { foldDiacritics } from '../text';
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface FoldedText {
+  /** Lowercased text with diacritics removed ("Señora" → "senora") */
+  folded: string;
+  /** For each index in `folded`, the index of the source character in the original text */
+  map: number[];
+}
+
+/** Fold a string for comparison: lowercase, no accents, ñ → n */
+export function normalizeForSearch(text: string): string {
+  return foldDiacritics(text).toLowerCase();
+}
+
+/** Split text into normalized word tokens */
+export function tokenize(text: string): string[] {
+  return normalizeForSearch(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Fold text one character at a time, recording the original offset of
+ * every folded character. Needed because folding can change lengths.
+ */
+export function foldWithMap(text: string): FoldedText {
+  let folded = '';
+  const map: number[] = [];
+  let offset = 0;
+
+  for (const char of text) {
+    const foldedChar = normalizeForSearch(char);
+    for (let i = 0; i < foldedChar.length; i++) {
+      map.push(offset);
+    }
+    folded += foldedChar;
+    offset += char.length;
+  }
+
+  map.push(offset);
+  return { folded, map };
+}
+
+/**
+ * Find every occurrence of `needle` in `text`, ignoring case and accents.
+ * Ranges refer to the original text.
+ */
+export function findMatchRanges(text: string, needle: string): MatchRange[] {
+  const foldedNeedle = normalizeForSearch(needle);
+  if (!foldedNeedle) return [];
+
+  const { folded, map } = foldWithMap(text);
+  const ranges: MatchRange[] = [];
+  let index = folded.indexOf(foldedNeedle);
+
+  while (index !== -1) {
+    ranges.push({ start: map[index], end: map[index + foldedNeedle.length] });
+    index = folded.indexOf(foldedNeedle, index + foldedNeedle.length);
+  }
+
+  return ranges;
+}
+
+/** Sort and merge overlapping ranges */
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: MatchRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
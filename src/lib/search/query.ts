@@ -0,0 +1,191 @@
+/**
+ * Search Querying
+ *
+ * Client-side matching against the search index:
+ * - Accent-insensitive (query and documents are folded)
+ * - Typo-tolerant (bounded edit distance for longer words)
+ * - Prefix matching so results appear while typing
+ * - Every query word must match for a document to be returned
+ */
+
+import type { SearchDocument } from './index-builder';
+import {
+  findMatchRanges,
+  mergeRanges,
+  normalizeForSearch,
+  tokenize,
+  type MatchRange,
+} from './normalize';
+
+export interface PreparedDocument {
+  doc: SearchDocument;
+  titleTokens: Set<string>;
+  tokens: Set<string>;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  doc: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+const SCORE_EXACT = 3;
+const SCORE_PREFIX = 2;
+const SCORE_FUZZY = 1;
+const TITLE_BONUS = 2;
+const SNIPPET_RADIUS = 60;
+
+const KIND_WEIGHT: Record<SearchDocument['kind'], number> = {
+  vocabulary: 1,
+  verb: 1,
+  lesson: 0.5,
+  page: 0,
+};
+
+export function prepareIndex(documents: SearchDocument[]): PreparedDocument[] {
+  return documents.map((doc) => ({
+    doc,
+    titleTokens: new Set(tokenize(doc.title)),
+    tokens: new Set(tokenize(`${doc.title} ${doc.context ?? ''} ${doc.text}`)),
+  }));
+}
+
+/** Allowed edits for a query word: none for short words, more for long ones */
+function maxEditsFor(word: string): number {
+  if (word.length >= 8) return 2;
+  if (word.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Damerau-Levenshtein distance (adjacent transpositions count as one edit)
+ * with an early exit once every path exceeds `max`.
+ */
+function withinEditDistance(a: string, b: string, max: number): boolean {
+  if (Math.abs(a.length - b.length) > max) return false;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return false;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length] <= max;
+}
+
+/** Best match for one query word against a document's words */
+function matchWord(word: string, tokens: Set<string>): { score: number; terms: string[] } | null {
+  if (tokens.has(word)) return { score: SCORE_EXACT, terms: [word] };
+
+  const prefixTerms = [...tokens].filter((token) => token.startsWith(word));
+  if (prefixTerms.length > 0) return { score: SCORE_PREFIX, terms: [word] };
+
+  const maxEdits = maxEditsFor(word);
+  if (maxEdits === 0) return null;
+
+  const fuzzyTerms = [...tokens].filter(
+    (token) =>
+      withinEditDistance(word, token, maxEdits) ||
+      // Typo in a partially typed word: compare against the token's prefix
+      (token.length > word.length &&
+        withinEditDistance(word, token.slice(0, word.length), maxEdits)),
+  );
+  return fuzzyTerms.length > 0 ? { score: SCORE_FUZZY, terms: fuzzyTerms } : null;
+}
+
+function buildSnippet(text: string, terms: string[]): SnippetPart[] {
+  const ranges = mergeRanges(terms.flatMap((term) => findMatchRanges(text, term)));
+
+  if (ranges.length === 0) {
+    const short = text.length > SNIPPET_RADIUS * 2 ? `${text.slice(0, SNIPPET_RADIUS * 2)}…` : text;
+    return [{ text: short, highlight: false }];
+  }
+
+  const start = Math.max(0, ranges[0].start - SNIPPET_RADIUS);
+  const end = Math.min(text.length, ranges[0].end + SNIPPET_RADIUS);
+  const visible = ranges.filter((range: MatchRange) => range.start >= start && range.end <= end);
+
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+
+  for (const range of visible) {
+    if (range.start > cursor)
+      parts.push({ text: text.slice(cursor, range.start), highlight: false });
+    parts.push({ text: text.slice(range.start, range.end), highlight: true });
+    cursor = range.end;
+  }
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), highlight: false });
+
+  if (start > 0) parts.unshift({ text: '…', highlight: false });
+  if (end < text.length) parts.push({ text: '…', highlight: false });
+
+  return parts;
+}
+
+export function search(index: PreparedDocument[], query: string, limit = 10): SearchResult[] {
+  const words = tokenize(query);
+  if (words.length === 0) return [];
+
+  const results: SearchResult[] = [];
+
+  for (const prepared of index) {
+    let score = KIND_WEIGHT[prepared.doc.kind];
+    const matchedTerms: string[] = [];
+    let matchedAll = true;
+
+    for (const word of words) {
+      const match = matchWord(word, prepared.tokens);
+      if (!match) {
+        matchedAll = false;
+        break;
+      }
+      score += match.score;
+      if (
+        match.terms.some((term) => prepared.titleTokens.has(term)) ||
+        prepared.titleTokens.has(word)
+      ) {
+        score += TITLE_BONUS;
+      }
+      matchedTerms.push(...match.terms);
+    }
+
+    if (!matchedAll) continue;
+
+    results.push({
+      doc: prepared.doc,
+      score,
+      snippet: buildSnippet(prepared.doc.text, matchedTerms),
+    });
+  }
+
+  // Whole-phrase matches rank above scattered word matches
+  const phrase = normalizeForSearch(query.trim());
+  for (const result of results) {
+    if (normalizeForSearch(`${result.doc.title} ${result.doc.text}`).includes(phrase)) {
+      result.score += words.length;
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,156 @@
+/**
+ * Search Results Panel
+ *
+ * Full-text results shown under the sidebar search box:
+ * - Index fetched lazily on first focus and shared between sidebars (and
+ *   the command palette's vocabulary)
+ * - Debounced querying while typing
+ * - Snippets with highlighted matches and deep links to headings
+ * - Enter opens the top result
+ */
+
+import type { SearchDocument } from './index-builder';
+import { prepareIndex, search, type PreparedDocument, type SearchResult } from './query';
+import { t } from '../i18n/client';
+
+const SEARCH_ENDPOINT = '/api/search';
+const DEBOUNCE_MS = 150;
+const MIN_QUERY_LENGTH = 2;
+const MAX_RESULTS = 8;
+
+let indexPromise: Promise<PreparedDocument[]> | null = null;
+
+export function loadSearchIndex(): Promise<PreparedDocument[]> {
+  if (!indexPromise) {
+    indexPromise = fetch(SEARCH_ENDPOINT, { credentials: 'same-origin' })
+      .then((response) => {
+        if (!response.ok) throw new Error(`Search index request failed: ${response.status}`);
+        return response.json() as Promise<SearchDocument[]>;
+      })
+      .then(prepareIndex)
+      .catch((error) => {
+        // Allow a retry on the next query
+        indexPromise = null;
+        throw error;
+      });
+  }
+  return indexPromise;
+}
+
+function renderResult(result: SearchResult): HTMLLIElement {
+  const item = document.createElement('li');
+  const link = document.createElement('a');
+  link.href = result.doc.href;
+  link.className = 'search-result';
+
+  const meta = document.createElement('span');
+  meta.className = 'search-result-meta';
+  meta.textContent = t(`search.kind.${result.doc.kind}`);
+
+  const title = document.createElement('span');
+  title.className = 'search-result-title';
+  title.textContent = result.doc.context
+    ? `${result.doc.title} › ${result.doc.context}`
+    : result.doc.title;
+
+  const snippet = document.createElement('span');
+  snippet.className = 'search-result-snippet';
+  result.snippet.forEach((part) => {
+    if (part.highlight) {
+      const mark = document.createElement('mark');
+      mark.className = 'search-result-highlight';
+      mark.textContent = part.text;
+      snippet.appendChild(mark);
+    } else {
+      snippet.appendChild(document.createTextNode(part.text));
+    }
+  });
+
+  link.appendChild(meta);
+  link.appendChild(title);
+  link.appendChild(snippet);
+  item.appendChild(link);
+  return item;
+}
+
+export function initSearchResults(searchInputId: string, containerSelector: string): void {
+  const searchInput = document.getElementById(searchInputId) as HTMLInputElement;
+  const container = document.querySelector(containerSelector) as HTMLElement;
+  if (!searchInput || !container) return;
+
+  const inputWrapper = searchInput.parentElement;
+  if (!inputWrapper) return;
+
+  // Create scoped results panel (unique per container)
+  const panel = document.createElement('div');
+  panel.className = 'search-results hidden';
+  panel.setAttribute('aria-live', 'polite');
+  inputWrapper.insertAdjacentElement('afterend', panel);
+
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+  let currentResults: SearchResult[] = [];
+
+  const showMessage = (message: string) => {
+    currentResults = [];
+    panel.replaceChildren();
+    const paragraph = document.createElement('p');
+    paragraph.className = 'search-results-message';
+    paragraph.textContent = message;
+    panel.appendChild(paragraph);
+    panel.classList.remove('hidden');
+  };
+
+  const runSearch = async (query: string) => {
+    let index: PreparedDocument[];
+    try {
+      index = await loadSearchIndex();
+    } catch {
+      showMessage(t('search.unavailable'));
+      return;
+    }
+
+    // Ignore stale responses if the query changed while loading
+    if (searchInput.value.trim() !== query) return;
+
+    currentResults = search(index, query, MAX_RESULTS);
+    if (currentResults.length === 0) {
+      showMessage(t('search.noResults'));
+      return;
+    }
+
+    const heading = document.createElement('p');
+    heading.className = 'search-results-heading';
+    heading.textContent = t('search.heading');
+
+    const list = document.createElement('ul');
+    list.className = 'search-results-list';
+    currentResults.forEach((result) => list.appendChild(renderResult(result)));
+
+    panel.replaceChildren(heading, list);
+    panel.classList.remove('hidden');
+  };
+
+  searchInput.addEventListener('focus', () => {
+    loadSearchIndex().catch(() => {});
+  });
+
+  searchInput.addEventListener('input', () => {
+    clearTimeout(debounceTimer);
+    const query = searchInput.value.trim();
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      currentResults = [];
+      panel.replaceChildren();
+      panel.classList.add('hidden');
+      return;
+    }
+
+    debounceTimer = setTimeout(() => runSearch(query), DEBOUNCE_MS);
+  });
+
+  searchInput.addEventListener('keydown', (e) => {
+    if (e.key !== 'Enter' || currentResults.length === 0) return;
+    e.preventDefault();
+    window.location.href = currentResults[0].doc.href;
+  });
+}
@@ -3,12 +3,37 @@
  *
  * Handles expand/collapse functionality for navigation sections.
  * Note: Initial state is applied by inline script to prevent flash.
- * This module only handles click interactions.
+ * This module handles click interactions, and follows changes made in
+ * other tabs or on other devices (the `collapsedSections` preference).
  */
 
-import { addCollapsedSection, removeCollapsedSection } from './storage';
+import { getPreference, onPreferenceChange, setPreference } from '../preferences';
+
+let followingPreference = false;
+
+function rememberSection(sectionId: string, collapsed: boolean): void {
+  const others = getPreference('collapsedSections').filter((id) => id !== sectionId);
+  setPreference('collapsedSections', collapsed ? [...others, sectionId] : others);
+}
+
+function applyCollapsedSections(collapsed: string[]): void {
+  document.querySelectorAll('.nav-section').forEach((section) => {
+    const sectionId = section.getAttribute('data-section');
+    if (!sectionId) return;
+    const isExpanded = !collapsed.includes(sectionId);
+    section.classList.toggle('expanded', isExpanded);
+    section.querySelector('.nav-section-header')?.setAttribute('aria-expanded', String(isExpanded));
+  });
+}
 
 export function initCollapsibleSections(): void {
+  if (!followingPreference) {
+    followingPreference = true;
+    onPreferenceChange(['collapsedSections'], (preferences) =>
+      applyCollapsedSections(preferences.collapsedSections),
+    );
+  }
+
   const sections = document.querySelectorAll('.nav-section');
 
   sections.forEach((section) => {
@@ -39,11 +64,11 @@ function toggleSection(
   if (isExpanded) {
     section.classList.remove('expanded');
     button.setAttribute('aria-expanded', 'false');
-    addCollapsedSection(sectionId);
+    rememberSection(sectionId, true);
   } else {
     section.classList.add('expanded');
     button.setAttribute('aria-expanded', 'true');
-    removeCollapsedSection(sectionId);
+    rememberSection(sectionId, false);
   }
 }
 
@@ -57,7 +82,7 @@ export function collapseCurrentSection(element: HTMLElement): void {
   if (button && sectionId && section.classList.contains('expanded')) {
     section.classList.remove('expanded');
     button.setAttribute('aria-expanded', 'false');
-    addCollapsedSection(sectionId);
+    rememberSection(sectionId, true);
   }
 }
 
@@ -71,6 +96,6 @@ export function expandCurrentSection(element: HTMLElement): void {
   if (button && sectionId && !section.classList.contains('expanded')) {
     section.classList.add('expanded');
     button.setAttribute('aria-expanded', 'true');
-    removeCollapsedSection(sectionId);
+    rememberSection(sectionId, false);
   }
 }
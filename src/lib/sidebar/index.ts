@@ -8,11 +8,16 @@ import { initCollapsibleSections } from './collapsible';
 import { initKeyboardNavigation } from './keyboard';
 import { initSearch } from './search';
 import { initResizable } from './resizable';
+import { initProgressIndicators } from './progress';
+import { initSearchResults } from '../search/results-panel';
 
 export function initSidebar(): void {
   initCollapsibleSections();
   initKeyboardNavigation('sidebar-search-mobile');
   initSearch('sidebar-search-desktop', '#left-sidebar');
   initSearch('sidebar-search-mobile', '#left-drawer');
+  initSearchResults('sidebar-search-desktop', '#left-sidebar');
+  initSearchResults('sidebar-search-mobile', '#left-drawer');
   initResizable();
+  initProgressIndicators();
 }
@@ -2,7 +2,10 @@
  * Keyboard Navigation
  *
  * Implements roving tabindex pattern for sidebar navigation.
- * - Single global keydown handler for both "/" search and arrow navigation
+ * - Single global keydown handler for "/" search and arrow navigation
+ * - Ctrl/Cmd+K is left to the command palette's own listener
+ *   (palette/ui.ts), which also has to work on pages without a sidebar;
+ *   everything else is ignored while the palette is open
  * - Arrow keys work from anywhere on the page (focus moves to sidebar)
  * - Roving tabindex: only one item tabbable at a time
  * - Left/Right collapse/expand sections
@@ -10,6 +13,7 @@
  */
 
 import { collapseCurrentSection, expandCurrentSection } from './collapsible';
+import { isCommandPaletteOpen, isCommandPaletteShortcut } from '../palette/ui';
 
 let currentFocusedItem: HTMLElement | null = null;
 let globalKeydownHandler: ((e: KeyboardEvent) => void) | null = null;
@@ -61,6 +65,9 @@ function initializeTabindex(nav: Element): void {
  */
 function createKeydownHandler(nav: Element, searchInput: HTMLInputElement | null) {
   return (e: KeyboardEvent) => {
+    // The palette handles its shortcut, and its own keys while open
+    if (isCommandPaletteShortcut(e) || isCommandPaletteOpen()) return;
+
     // Skip if user is typing in an input (except for Escape)
     if (
       (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) &&
@@ -0,0 +1,58 @@
+/**
+ * Progress Indicators
+ *
+ * Lesson completion in the navigation:
+ * - Checkmark on every completed lesson (`data-completed`)
+ * - Completed count and progress bar per lesson section
+ * Renders from the local copy immediately and again whenever progress
+ * changes (including after the account copy loads).
+ */
+
+import {
+  loadProgress,
+  readLocalProgress,
+  PROGRESS_UPDATED_EVENT,
+  type ProgressData,
+} from '../progress/index';
+
+let listening = false;
+
+function renderProgress(progress: ProgressData): void {
+  document.querySelectorAll<HTMLElement>('.nav-item[data-lesson-slug]').forEach((item) => {
+    const slug = item.dataset.lessonSlug ?? '';
+    if (progress.lessons[slug]?.completed) {
+      item.dataset.completed = 'true';
+    } else {
+      delete item.dataset.completed;
+    }
+  });
+
+  document.querySelectorAll<HTMLElement>('.nav-section').forEach((section) => {
+    const bar = section.querySelector('[data-progress-bar]') as HTMLElement | null;
+    if (!bar) return;
+
+    const lessons = section.querySelectorAll('.nav-item[data-lesson-slug]');
+    const completed = section.querySelectorAll('.nav-item[data-completed="true"]').length;
+    const percent = lessons.length > 0 ? (completed / lessons.length) * 100 : 0;
+
+    bar.setAttribute('aria-valuenow', String(completed));
+    const fill = bar.querySelector('.nav-section-progress-fill') as HTMLElement | null;
+    if (fill) fill.style.width = `${percent}%`;
+
+    const count = section.querySelector('[data-progress-count]');
+    if (count) count.textContent = completed > 0 ? `${completed}/${lessons.length}` : '';
+  });
+}
+
+export function initProgressIndicators(): void {
+  renderProgress(readLocalProgress());
+
+  if (!listening) {
+    listening = true;
+    document.addEventListener(PROGRESS_UPDATED_EVENT, (event) => {
+      renderProgress((event as CustomEvent<ProgressData>).detail);
+    });
+  }
+
+  loadProgress().catch(() => {});
+}
@@ -1,12 +1,15 @@
 /**
  * Resizable Sidebar
  *
- * Handles drag-to-resize functionality for the sidebar
+ * Handles drag-to-resize functionality for the sidebar. The width is the
+ * `sidebarWidth` preference, so it also follows changes made in other tabs
+ * or on other devices.
  */
 
-import { STORAGE_KEYS } from './storage';
+import { getPreference, onPreferenceChange, setPreference } from '../preferences';
 
 let isInitialized = false;
+let followingPreference = false;
 
 export function initResizable(): void {
   if (isInitialized && document.getElementById('left-sidebar-container')) {
@@ -26,23 +29,17 @@ export function initResizable(): void {
   if (window.innerWidth < 1024) {
     gridContainer.style.gridTemplateColumns = '';
   }
-  // Restore width from localStorage (only on desktop)
-  const storedWidth = localStorage.getItem(STORAGE_KEYS.width);
-  if (storedWidth && window.innerWidth >= 1024) {
-    const width = parseInt(storedWidth, 10);
-    const minWidth = parseInt(
-      getComputedStyle(document.documentElement).getPropertyValue('--sidebar-width-min'),
-      10,
-    );
-    const maxWidth = parseInt(
-      getComputedStyle(document.documentElement).getPropertyValue('--sidebar-width-max'),
-      10,
-    );
-
-    if (width >= minWidth && width <= maxWidth) {
-      sidebar.style.width = `${width}px`;
-      updateGridColumns(gridContainer, width);
-    }
+  // Restore the saved width (only on desktop)
+  applyStoredWidth(sidebar, gridContainer, getPreference('sidebarWidth'));
+  if (!followingPreference) {
+    followingPreference = true;
+    onPreferenceChange(['sidebarWidth'], (preferences) => {
+      const currentSidebar = document.getElementById('left-sidebar');
+      const currentGrid = document.querySelector<HTMLElement>('.app-body');
+      if (currentSidebar && currentGrid) {
+        applyStoredWidth(currentSidebar, currentGrid, preferences.sidebarWidth);
+      }
+    });
   }
   // Re-enable transitions after a frame (allows initial render without animation)
   requestAnimationFrame(() => {
@@ -99,7 +96,7 @@ export function initResizable(): void {
       document.body.style.userSelect = '';
       // Remove transition after resize
       gridContainer.style.transition = '';
-      localStorage.setItem(STORAGE_KEYS.width, sidebar.offsetWidth.toString());
+      setPreference('sidebarWidth', sidebar.offsetWidth);
     }
   });
 
@@ -121,6 +118,28 @@ export function initResizable(): void {
   });
 }
 
+function applyStoredWidth(
+  sidebar: HTMLElement,
+  gridContainer: HTMLElement,
+  width: number | null,
+): void {
+  if (width === null || window.innerWidth < 1024) return;
+
+  const minWidth = parseInt(
+    getComputedStyle(document.documentElement).getPropertyValue('--sidebar-width-min'),
+    10,
+  );
+  const maxWidth = parseInt(
+    getComputedStyle(document.documentElement).getPropertyValue('--sidebar-width-max'),
+    10,
+  );
+
+  if (width >= minWidth && width <= maxWidth) {
+    sidebar.style.width = `${width}px`;
+    updateGridColumns(gridContainer, width);
+  }
+}
+
 function updateGridColumns(gridContainer: HTMLElement, sidebarWidth: number): void {
   // Only apply inline styles on desktop (>= 1024px)
   // On mobile/tablet, let CSS media queries handle the layout
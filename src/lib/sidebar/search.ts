@@ -1,9 +1,14 @@
 /**
  * Search Functionality
  *
- * Handles search filtering and text highlighting
+ * Handles search filtering and text highlighting. Matching ignores case
+ * and accents ("maria" finds "María"), while highlights keep the original
+ * characters.
  */
 
+import { findMatchRanges, normalizeForSearch } from '../search/normalize';
+import { t } from '../i18n/client';
+
 export function initSearch(searchInputId: string, containerSelector: string): void {
   const searchInput = document.getElementById(searchInputId) as HTMLInputElement;
   const container = document.querySelector(containerSelector) as HTMLElement;
@@ -16,11 +21,14 @@ export function initSearch(searchInputId: string, containerSelector: string): vo
   // Create scoped empty state (unique per container)
   const emptyState = document.createElement('div');
   emptyState.className = 'search-empty-state hidden text-center py-8 px-4 text-secondary';
-  emptyState.innerHTML = '<p class="text-sm">No matching lessons</p>';
+  const emptyMessage = document.createElement('p');
+  emptyMessage.className = 'text-sm';
+  emptyMessage.textContent = t('nav.noMatches');
+  emptyState.appendChild(emptyMessage);
   nav?.appendChild(emptyState);
 
   searchInput.addEventListener('input', (e) => {
-    const query = (e.target as HTMLInputElement).value.toLowerCase().trim();
+    const query = normalizeForSearch((e.target as HTMLInputElement).value.trim());
 
     document.querySelectorAll('.search-highlight').forEach((el) => {
       const parent = el.parentNode;
@@ -40,7 +48,7 @@ export function initSearch(searchInputId: string, containerSelector: string): vo
     let hasVisibleItems = false;
 
     navItems.forEach((item) => {
-      const textContent = item.textContent?.toLowerCase() || '';
+      const textContent = normalizeForSearch(item.textContent || '');
 
       if (textContent.includes(query)) {
         item.classList.remove('hidden');
@@ -76,33 +84,34 @@ function highlightText(element: HTMLElement, query: string): void {
   let node;
   while ((node = walker.nextNode())) {
     const text = node.textContent || '';
-    const lowerText = text.toLowerCase();
 
-    if (lowerText.includes(query)) {
+    if (normalizeForSearch(text).includes(query)) {
       nodesToReplace.push({ node, text });
     }
   }
 
   nodesToReplace.forEach(({ node, text }) => {
-    const lowerText = text.toLowerCase();
-    const index = lowerText.indexOf(query);
-
-    if (index === -1) return;
+    const ranges = findMatchRanges(text, query);
 
-    const beforeText = text.substring(0, index);
-    const matchText = text.substring(index, index + query.length);
-    const afterText = text.substring(index + query.length);
+    if (ranges.length === 0) return;
 
     const fragment = document.createDocumentFragment();
+    let cursor = 0;
 
-    if (beforeText) fragment.appendChild(document.createTextNode(beforeText));
+    ranges.forEach(({ start, end }) => {
+      if (start > cursor) {
+        fragment.appendChild(document.createTextNode(text.substring(cursor, start)));
+      }
 
-    const mark = document.createElement('mark');
-    mark.className = 'search-highlight';
-    mark.textContent = matchText;
-    fragment.appendChild(mark);
+      const mark = document.createElement('mark');
+      mark.className = 'search-highlight';
+      mark.textContent = text.substring(start, end);
+      fragment.appendChild(mark);
+
+      cursor = end;
+    });
 
-    if (afterText) fragment.appendChild(document.createTextNode(afterText));
+    if (cursor < text.length) fragment.appendChild(document.createTextNode(text.substring(cursor)));
 
     node.parentNode?.replaceChild(fragment, node);
   });
@@ -0,0 +1,80 @@
+/**
+ * Device Storage
+ *
+ * localStorage behind a small interface that never throws:
+ * - Corrupt JSON reads as the fallback value
+ * - When storage is unavailable (private browsing, blocked site data) or
+ *   full, values are kept in memory for the rest of the page
+ * - Other implementations (e.g. memory only) can stand in for tests or
+ *   pages that should not persist anything
+ */
+
+export interface KeyValueStorage {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+  remove(key: string): void;
+}
+
+export function createMemoryStorage(): KeyValueStorage {
+  const values = new Map<string, string>();
+  return {
+    get(key) {
+      return values.get(key) ?? null;
+    },
+    set(key, value) {
+      values.set(key, value);
+    },
+    remove(key) {
+      values.delete(key);
+    },
+  };
+}
+
+/** localStorage, falling back to memory for keys it cannot hold */
+export function createLocalStorage(): KeyValueStorage {
+  const fallback = createMemoryStorage();
+  return {
+    get(key) {
+      const inMemory = fallback.get(key);
+      if (inMemory !== null) return inMemory;
+      try {
+        return localStorage.getItem(key);
+      } catch {
+        return null;
+      }
+    },
+    set(key, value) {
+      try {
+        localStorage.setItem(key, value);
+        fallback.remove(key);
+      } catch {
+        // Disabled or over quota; keep the value for this page at least
+        fallback.set(key, value);
+      }
+    },
+    remove(key) {
+      fallback.remove(key);
+      try {
+        localStorage.removeItem(key);
+      } catch {
+        // Nothing stored to remove
+      }
+    },
+  };
+}
+
+export const deviceStorage = createLocalStorage();
+
+export function readJson<T>(key: string, fallback: T, storage = deviceStorage): T {
+  const stored = storage.get(key);
+  if (stored === null) return fallback;
+  try {
+    return JSON.parse(stored) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeJson(key: string, value: unknown, storage = deviceStorage): void {
+  storage.set(key, JSON.stringify(value));
+}
@@ -0,0 +1,83 @@
+/**
+ * Text Utilities
+ *
+ * Diacritic folding and slug helpers shared by the glossary, search and
+ * other features that need to compare Spanish text loosely, the CSV
+ * writer used by the downloads, and escaping for HTML built as strings
+ * and JSON for inline script elements.
+ */
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/**
+ * Remove accents and diaeresis but keep ñ, since "año" and "ano" are
+ * different words. Use this for de-duplication and letter grouping.
+ */
+export function stripAccents(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/(?<![nN])[\u0300-\u036f]/g, '')
+    .normalize('NFC');
+}
+
+/**
+ * Remove every diacritic, including the tilde on ñ. Use this for loose
+ * matching where learners type on English keyboards ("senora" → "señora").
+ */
+export function foldDiacritics(text: string): string {
+  return text.normalize('NFD').replace(COMBINING_MARKS, '').normalize('NFC');
+}
+
+/**
+ * Build a URL/ID-safe slug: "Contractions (mi hija → mija)" → "contractions-mi-hija-mija"
+ */
+export function slugify(text: string): string {
+  return foldDiacritics(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Slug for a Spanish word that keeps ñ apart from n ("año" → "anyo",
+ * "ano" → "ano"), for IDs that must not collide
+ */
+export function wordSlug(text: string): string {
+  return slugify(stripAccents(text).replace(/ñ/g, 'ny').replace(/Ñ/g, 'NY'));
+}
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const CSV_FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * RFC 4180: quote fields containing a comma, quote or line break. Fields
+ * that would start a formula (names are user input) get a leading `'`.
+ */
+function csvField(value: string): string {
+  const text = CSV_FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** A CSV file from a header row and data rows */
+export function toCsv(rows: string[][]): string {
+  const lines = rows.map((values) => values.map(csvField).join(','));
+  // Byte order mark so spreadsheet apps read the accents as UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/** Escape text for HTML built as a string, in element content or a quoted attribute */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * JSON for a `<script type="application/json">` element, with "<"
+ * escaped so lesson text can never close the element
+ */
+export function scriptJson(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
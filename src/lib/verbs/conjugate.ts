@@ -0,0 +1,315 @@
+/**
+ * Conjugation Engine
+ *
+ * Produces the full paradigm (every tense, mood and person) for a verb
+ * from its infinitive, regularity class, stem change and irregular data.
+ *
+ * Order of precedence for each form:
+ * 1. Explicit per-form override from the verb's data file
+ * 2. Irregular stems (yo form, preterite stem, future stem, ...)
+ * 3. Regular endings with stem changes and predictable spelling changes
+ *    (-car/-gar/-zar, -ger/-gir, -guir)
+ */
+
+import { foldDiacritics } from '../text';
+import {
+  PERSON_IDS,
+  TENSE_IDS,
+  type PersonId,
+  type Regularity,
+  type StemChange,
+  type TenseId,
+} from './paradigm';
+
+export type Forms = Partial<Record<PersonId, string>>;
+
+export interface IrregularStems {
+  /** Present indicative yo form; also drives the present subjunctive stem (tengo → tenga) */
+  presentYo?: string;
+  /** Strong preterite stem taking unstressed endings (tuv- → tuve, tuvo) */
+  preteriteStem?: string;
+  /** Future and conditional stem (tendr- → tendré, tendría) */
+  futureStem?: string;
+  gerund?: string;
+  participle?: string;
+  /** Affirmative tú command (ten, haz, di) */
+  imperativeTu?: string;
+}
+
+export interface VerbDefinition {
+  infinitive: string;
+  english: string;
+  regularity: Regularity;
+  stemChange?: StemChange;
+  irregular?: IrregularStems;
+  overrides?: Partial<Record<TenseId, Forms>>;
+  notes?: string;
+}
+
+export interface Paradigm {
+  infinitive: string;
+  gerund: string;
+  participle: string;
+  tenses: Record<TenseId, Forms>;
+}
+
+type VerbClass = 'ar' | 'er' | 'ir';
+
+const ENDINGS: Record<VerbClass, Record<string, string[]>> = {
+  ar: {
+    present: ['o', 'as', 'a', 'amos', 'an'],
+    preterite: ['é', 'aste', 'ó', 'amos', 'aron'],
+    imperfect: ['aba', 'abas', 'aba', 'ábamos', 'aban'],
+    presentSubjunctive: ['e', 'es', 'e', 'emos', 'en'],
+  },
+  er: {
+    present: ['o', 'es', 'e', 'emos', 'en'],
+    preterite: ['í', 'iste', 'ió', 'imos', 'ieron'],
+    imperfect: ['ía', 'ías', 'ía', 'íamos', 'ían'],
+    presentSubjunctive: ['a', 'as', 'a', 'amos', 'an'],
+  },
+  ir: {
+    present: ['o', 'es', 'e', 'imos', 'en'],
+    preterite: ['í', 'iste', 'ió', 'imos', 'ieron'],
+    imperfect: ['ía', 'ías', 'ía', 'íamos', 'ían'],
+    presentSubjunctive: ['a', 'as', 'a', 'amos', 'an'],
+  },
+};
+
+const FUTURE_ENDINGS = ['é', 'ás', 'á', 'emos', 'án'];
+const CONDITIONAL_ENDINGS = ['ía', 'ías', 'ía', 'íamos', 'ían'];
+const STRONG_PRETERITE_ENDINGS = ['e', 'iste', 'o', 'imos', 'ieron'];
+const IMPERFECT_SUBJUNCTIVE_ENDINGS = ['ra', 'ras', 'ra', 'ramos', 'ran'];
+
+const HABER: Record<string, string[]> = {
+  present: ['he', 'has', 'ha', 'hemos', 'han'],
+  imperfect: ['había', 'habías', 'había', 'habíamos', 'habían'],
+  future: ['habré', 'habrás', 'habrá', 'habremos', 'habrán'],
+  conditional: ['habría', 'habrías', 'habría', 'habríamos', 'habrían'],
+  presentSubjunctive: ['haya', 'hayas', 'haya', 'hayamos', 'hayan'],
+  imperfectSubjunctive: ['hubiera', 'hubieras', 'hubiera', 'hubiéramos', 'hubieran'],
+};
+
+const COMPOUND_TENSES: Partial<Record<TenseId, keyof typeof HABER>> = {
+  presentPerfect: 'present',
+  pluperfect: 'imperfect',
+  futurePerfect: 'future',
+  conditionalPerfect: 'conditional',
+  presentPerfectSubjunctive: 'presentSubjunctive',
+  pluperfectSubjunctive: 'imperfectSubjunctive',
+};
+
+/** Persons whose stem vowel is stressed in the present ("boot" forms) */
+const BOOT_PERSONS: PersonId[] = ['yo', 'tu', 'usted', 'ustedes'];
+
+const ACCENTED: Record<string, string> = { a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú' };
+
+function verbClass(infinitive: string): VerbClass {
+  const ending = foldDiacritics(infinitive.slice(-2));
+  if (ending === 'ar' || ending === 'er' || ending === 'ir') return ending;
+  throw new Error(`Cannot conjugate "${infinitive}": infinitive must end in -ar, -er or -ir`);
+}
+
+function withEndings(stem: string, endings: string[]): Forms {
+  return Object.fromEntries(PERSON_IDS.map((person, i) => [person, stem + endings[i]]));
+}
+
+/** Replace the last occurrence of the stem vowel: pens → piens, dorm → duerm */
+function changeStem(stem: string, change: StemChange | undefined): string {
+  if (!change) return stem;
+  const [from, to] = change.split('-');
+  const index = stem.lastIndexOf(from);
+  if (index === -1) return stem;
+  return stem.slice(0, index) + to + stem.slice(index + from.length);
+}
+
+/**
+ * -ir stem-changers raise e → i and o → u where the stem is unstressed
+ * but followed by a stressed ending (pidió, durmiendo, sintamos)
+ */
+function raiseStem(stem: string, change: StemChange | undefined, cls: VerbClass): string {
+  if (cls !== 'ir' || !change) return stem;
+  const from = change.split('-')[0];
+  const raised = from === 'e' ? 'i' : from === 'o' ? 'u' : null;
+  if (!raised) return stem;
+  const index = stem.lastIndexOf(from);
+  if (index === -1) return stem;
+  return stem.slice(0, index) + raised + stem.slice(index + 1);
+}
+
+/** Spelling changes needed to keep the consonant sound before -o/-a (escoger → escojo) */
+function spellBeforeBackVowel(stem: string, cls: VerbClass): string {
+  if (cls === 'ar') return stem;
+  if (stem.endsWith('gu')) return stem.slice(0, -2) + 'g';
+  if (stem.endsWith('g')) return stem.slice(0, -1) + 'j';
+  return stem;
+}
+
+/** Spelling changes needed to keep the consonant sound before -e (busqué, llegue, empiece) */
+function spellBeforeFrontVowel(stem: string, cls: VerbClass): string {
+  if (cls !== 'ar') return stem;
+  if (stem.endsWith('c')) return stem.slice(0, -1) + 'qu';
+  if (stem.endsWith('g')) return stem.slice(0, -1) + 'gu';
+  if (stem.endsWith('z')) return stem.slice(0, -1) + 'c';
+  return stem;
+}
+
+function endsInVowel(stem: string): boolean {
+  return /[aeo]$/.test(stem);
+}
+
+function conjugatePresent(verb: VerbDefinition, stem: string, cls: VerbClass): Forms {
+  const changed = changeStem(stem, verb.stemChange);
+  const endings = ENDINGS[cls].present;
+  const forms: Forms = {};
+
+  PERSON_IDS.forEach((person, i) => {
+    const personStem = BOOT_PERSONS.includes(person) ? changed : stem;
+    forms[person] = personStem + endings[i];
+  });
+
+  forms.yo = verb.irregular?.presentYo ?? spellBeforeBackVowel(changed, cls) + 'o';
+  return forms;
+}
+
+function conjugatePresentSubjunctive(verb: VerbDefinition, stem: string, cls: VerbClass): Forms {
+  const endings = ENDINGS[cls].presentSubjunctive;
+  const presentYo = verb.irregular?.presentYo;
+
+  // Irregular yo forms ending in -o carry their stem through the whole tense (tengo → tenga, tengamos)
+  if (presentYo?.endsWith('o')) {
+    return withEndings(presentYo.slice(0, -1), endings);
+  }
+
+  const spell = (s: string) =>
+    cls === 'ar' ? spellBeforeFrontVowel(s, cls) : spellBeforeBackVowel(s, cls);
+  const bootStem = spell(changeStem(stem, verb.stemChange));
+  const nosotrosStem = spell(raiseStem(stem, verb.stemChange, cls));
+
+  const forms: Forms = {};
+  PERSON_IDS.forEach((person, i) => {
+    forms[person] = (person === 'nosotros' ? nosotrosStem : bootStem) + endings[i];
+  });
+  return forms;
+}
+
+function conjugatePreterite(verb: VerbDefinition, stem: string, cls: VerbClass): Forms {
+  const strongStem = verb.irregular?.preteriteStem;
+  if (strongStem) {
+    const forms = withEndings(strongStem, STRONG_PRETERITE_ENDINGS);
+    // After j the i of -ieron is absorbed (dijeron, trajeron)
+    if (strongStem.endsWith('j')) forms.ustedes = strongStem + 'eron';
+    return forms;
+  }
+
+  const forms = withEndings(stem, ENDINGS[cls].preterite);
+
+  if (cls === 'ar') {
+    forms.yo = spellBeforeFrontVowel(stem, cls) + 'é';
+    return forms;
+  }
+
+  // Third persons of -ir stem-changers raise the stem vowel (pidió, durmieron)
+  const raised = raiseStem(stem, verb.stemChange, cls);
+  forms.usted = raised + 'ió';
+  forms.ustedes = raised + 'ieron';
+
+  // Stems ending in a vowel: unstressed i becomes y, stressed i takes an accent (leyó, leíste)
+  if (endsInVowel(stem)) {
+    forms.tu = stem + 'íste';
+    forms.nosotros = stem + 'ímos';
+    forms.usted = stem + 'yó';
+    forms.ustedes = stem + 'yeron';
+  } else if (stem.endsWith('u') && !stem.endsWith('gu') && !stem.endsWith('qu')) {
+    forms.usted = stem + 'yó';
+    forms.ustedes = stem + 'yeron';
+  }
+
+  return forms;
+}
+
+/** Imperfect subjunctive is built from the final ellos preterite form: tuvieron → tuviera */
+function conjugateImperfectSubjunctive(preterite: Forms): Forms {
+  const base = (preterite.ustedes ?? '').replace(/ron$/, '');
+  const forms = withEndings(base, IMPERFECT_SUBJUNCTIVE_ENDINGS);
+  const last = base.slice(-1);
+  forms.nosotros = base.slice(0, -1) + (ACCENTED[last] ?? last) + 'ramos';
+  return forms;
+}
+
+function defaultGerund(verb: VerbDefinition, stem: string, cls: VerbClass): string {
+  if (cls === 'ar') return stem + 'ando';
+  if (endsInVowel(stem)) return stem + 'yendo';
+  return raiseStem(stem, verb.stemChange, cls) + 'iendo';
+}
+
+function defaultParticiple(stem: string, cls: VerbClass): string {
+  if (cls === 'ar') return stem + 'ado';
+  return stem + (endsInVowel(stem) ? 'ído' : 'ido');
+}
+
+function applyOverrides(forms: Forms, overrides: Forms | undefined): Forms {
+  return overrides ? { ...forms, ...overrides } : forms;
+}
+
+export function conjugate(verb: VerbDefinition): Paradigm {
+  const infinitive = verb.infinitive.trim().toLowerCase();
+  const cls = verbClass(infinitive);
+  const stem = infinitive.slice(0, -2);
+  const irregular = verb.irregular ?? {};
+  const overrides = verb.overrides ?? {};
+  const tenses = {} as Record<TenseId, Forms>;
+
+  const set = (tense: TenseId, forms: Forms) => {
+    tenses[tense] = applyOverrides(forms, overrides[tense]);
+  };
+
+  set('present', conjugatePresent(verb, stem, cls));
+  set('preterite', conjugatePreterite(verb, stem, cls));
+  set('imperfect', withEndings(stem, ENDINGS[cls].imperfect));
+
+  const futureStem = irregular.futureStem ?? infinitive;
+  set('future', withEndings(futureStem, FUTURE_ENDINGS));
+  set('conditional', withEndings(futureStem, CONDITIONAL_ENDINGS));
+
+  set('presentSubjunctive', conjugatePresentSubjunctive(verb, stem, cls));
+  set('imperfectSubjunctive', conjugateImperfectSubjunctive(tenses.preterite));
+
+  const participle = irregular.participle ?? defaultParticiple(stem, cls);
+  const gerund = irregular.gerund ?? defaultGerund(verb, stem, cls);
+
+  for (const [tense, haberTense] of Object.entries(COMPOUND_TENSES) as Array<
+    [TenseId, keyof typeof HABER]
+  >) {
+    set(
+      tense,
+      Object.fromEntries(
+        PERSON_IDS.map((person, i) => [person, `${HABER[haberTense][i]} ${participle}`]),
+      ),
+    );
+  }
+
+  // Commands reuse the present subjunctive except affirmative tú
+  const subjunctive = tenses.presentSubjunctive;
+  set('affirmativeImperative', {
+    tu: irregular.imperativeTu ?? tenses.present.usted,
+    usted: subjunctive.usted,
+    nosotros: subjunctive.nosotros,
+    ustedes: subjunctive.ustedes,
+  });
+  set('negativeImperative', {
+    tu: `no ${subjunctive.tu}`,
+    usted: `no ${subjunctive.usted}`,
+    nosotros: `no ${subjunctive.nosotros}`,
+    ustedes: `no ${subjunctive.ustedes}`,
+  });
+
+  // Guard against tenses added to TENSE_IDS without engine support
+  for (const tense of TENSE_IDS) {
+    if (!tenses[tense]) {
+      throw new Error(`Conjugation engine does not support tense "${tense}"`);
+    }
+  }
+
+  return { infinitive, gerund, participle, tenses };
+}
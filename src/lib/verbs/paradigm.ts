@@ -0,0 +1,192 @@
+/**
+ * Verb Paradigm Definitions
+ *
+ * Persons, tenses and moods used by the conjugation engine and the verb
+ * tables appendix. Follows Mexican usage: ustedes replaces vosotros, so
+ * every tense has five persons.
+ */
+
+export const PERSON_IDS = ['yo', 'tu', 'usted', 'nosotros', 'ustedes'] as const;
+export type PersonId = (typeof PERSON_IDS)[number];
+
+export const PERSON_LABELS: Record<PersonId, string> = {
+  yo: 'yo',
+  tu: 'tú',
+  usted: 'él / ella / usted',
+  nosotros: 'nosotros / nosotras',
+  ustedes: 'ellos / ellas / ustedes',
+};
+
+/** Imperatives have no yo form and address the listener directly */
+export const IMPERATIVE_PERSON_LABELS: Partial<Record<PersonId, string>> = {
+  tu: 'tú',
+  usted: 'usted',
+  nosotros: 'nosotros',
+  ustedes: 'ustedes',
+};
+
+export const TENSE_IDS = [
+  'present',
+  'preterite',
+  'imperfect',
+  'future',
+  'conditional',
+  'presentPerfect',
+  'pluperfect',
+  'futurePerfect',
+  'conditionalPerfect',
+  'presentSubjunctive',
+  'imperfectSubjunctive',
+  'presentPerfectSubjunctive',
+  'pluperfectSubjunctive',
+  'affirmativeImperative',
+  'negativeImperative',
+] as const;
+export type TenseId = (typeof TENSE_IDS)[number];
+
+export type Mood = 'indicative' | 'subjunctive' | 'imperative';
+
+export interface TenseInfo {
+  id: TenseId;
+  mood: Mood;
+  /** Spanish name as used in grammar references */
+  name: string;
+  /** English name */
+  label: string;
+  compound: boolean;
+}
+
+export const TENSES: TenseInfo[] = [
+  { id: 'present', mood: 'indicative', name: 'Presente', label: 'Present', compound: false },
+  { id: 'preterite', mood: 'indicative', name: 'Pretérito', label: 'Preterite', compound: false },
+  { id: 'imperfect', mood: 'indicative', name: 'Copretérito', label: 'Imperfect', compound: false },
+  { id: 'future', mood: 'indicative', name: 'Futuro', label: 'Future', compound: false },
+  {
+    id: 'conditional',
+    mood: 'indicative',
+    name: 'Pospretérito',
+    label: 'Conditional',
+    compound: false,
+  },
+  {
+    id: 'presentPerfect',
+    mood: 'indicative',
+    name: 'Antepresente',
+    label: 'Present Perfect',
+    compound: true,
+  },
+  {
+    id: 'pluperfect',
+    mood: 'indicative',
+    name: 'Antecopretérito',
+    label: 'Pluperfect',
+    compound: true,
+  },
+  {
+    id: 'futurePerfect',
+    mood: 'indicative',
+    name: 'Antefuturo',
+    label: 'Future Perfect',
+    compound: true,
+  },
+  {
+    id: 'conditionalPerfect',
+    mood: 'indicative',
+    name: 'Antepospretérito',
+    label: 'Conditional Perfect',
+    compound: true,
+  },
+  {
+    id: 'presentSubjunctive',
+    mood: 'subjunctive',
+    name: 'Presente',
+    label: 'Present',
+    compound: false,
+  },
+  {
+    id: 'imperfectSubjunctive',
+    mood: 'subjunctive',
+    name: 'Pretérito',
+    label: 'Imperfect',
+    compound: false,
+  },
+  {
+    id: 'presentPerfectSubjunctive',
+    mood: 'subjunctive',
+    name: 'Antepresente',
+    label: 'Present Perfect',
+    compound: true,
+  },
+  {
+    id: 'pluperfectSubjunctive',
+    mood: 'subjunctive',
+    name: 'Antepretérito',
+    label: 'Pluperfect',
+    compound: true,
+  },
+  {
+    id: 'affirmativeImperative',
+    mood: 'imperative',
+    name: 'Afirmativo',
+    label: 'Affirmative',
+    compound: false,
+  },
+  {
+    id: 'negativeImperative',
+    mood: 'imperative',
+    name: 'Negativo',
+    label: 'Negative',
+    compound: false,
+  },
+];
+
+/** Groups used to lay out tables: one table per group */
+export const TENSE_GROUPS: Array<{ id: string; title: string; mood: Mood; tenses: TenseId[] }> = [
+  {
+    id: 'indicative',
+    title: 'Indicative',
+    mood: 'indicative',
+    tenses: ['present', 'preterite', 'imperfect', 'future', 'conditional'],
+  },
+  {
+    id: 'indicative-compound',
+    title: 'Indicative (compound)',
+    mood: 'indicative',
+    tenses: ['presentPerfect', 'pluperfect', 'futurePerfect', 'conditionalPerfect'],
+  },
+  {
+    id: 'subjunctive',
+    title: 'Subjunctive',
+    mood: 'subjunctive',
+    tenses: [
+      'presentSubjunctive',
+      'imperfectSubjunctive',
+      'presentPerfectSubjunctive',
+      'pluperfectSubjunctive',
+    ],
+  },
+  {
+    id: 'imperative',
+    title: 'Imperative',
+    mood: 'imperative',
+    tenses: ['affirmativeImperative', 'negativeImperative'],
+  },
+];
+
+export const STEM_CHANGES = ['e-ie', 'o-ue', 'e-i', 'u-ue', 'i-ie'] as const;
+export type StemChange = (typeof STEM_CHANGES)[number];
+
+export const REGULARITY_CLASSES = ['regular', 'stem-changing', 'irregular'] as const;
+export type Regularity = (typeof REGULARITY_CLASSES)[number];
+
+export function getTenseInfo(id: TenseId): TenseInfo {
+  return TENSES.find((tense) => tense.id === id)!;
+}
+
+export function verbAnchorId(verbId: string): string {
+  return `verb-${verbId}`;
+}
+
+export function verbTableHref(verbId: string): string {
+  return `/appendices/verb-tables#${verbAnchorId(verbId)}`;
+}
@@ -0,0 +1,167 @@
+/**
+ * Vocabulary Export
+ *
+ * Lesson `vocabulary` entries as files students can load into their own
+ * tools:
+ * - CSV and TSV with one row per word (Spanish, IPA, English, notes,
+ *   lesson, section, grammar topics)
+ * - A tab-separated text file with Anki import headers: Spanish on the
+ *   front, English, IPA and notes on the back, and tags for the course,
+ *   lesson, section and grammar topics
+ *
+ * Served by /<course>/vocabulary.<format> (every lesson of a course) and
+ * /<course>/lessons/<slug>/vocabulary.<format> (one lesson).
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { courseHref, lessonHref } from '../courses';
+import { grammarTopicSlug } from '../grammar';
+import { escapeHtml, slugify, toCsv } from '../text';
+
+export const VOCABULARY_EXPORT_FORMATS = ['csv', 'tsv', 'anki.txt'] as const;
+export type VocabularyExportFormat = (typeof VOCABULARY_EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<VocabularyExportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  'anki.txt': 'Anki',
+};
+
+const CONTENT_TYPES: Record<VocabularyExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  'anki.txt': 'text/plain; charset=utf-8',
+};
+
+const COLUMNS = ['Spanish', 'IPA', 'English', 'Notes', 'Lesson', 'Section', 'Grammar Topics'];
+
+export interface VocabularyRow {
+  spanish: string;
+  ipa: string;
+  english: string;
+  notes: string;
+  course: string;
+  lessonSlug: string;
+  lessonTitle: string;
+  section: string;
+  grammarTopics: string[];
+}
+
+export function isVocabularyExportFormat(value: string): value is VocabularyExportFormat {
+  return (VOCABULARY_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function vocabularyExportHref(
+  format: VocabularyExportFormat,
+  course: string,
+  lessonSlug?: string,
+): string {
+  const base = lessonSlug ? lessonHref(course, lessonSlug) : courseHref(course);
+  return `${base}/vocabulary.${format}`;
+}
+
+export function buildVocabularyRows(lessons: CollectionEntry<'lessons'>[]): VocabularyRow[] {
+  return [...lessons]
+    .sort((a, b) => a.data.order - b.data.order)
+    .flatMap((lesson) =>
+      (lesson.data.vocabulary ?? [])
+        .filter((word) => word.spanish)
+        .map((word) => ({
+          spanish: word.spanish,
+          ipa: word.ipa ?? '',
+          english: word.english ?? '',
+          notes: word.notes ?? '',
+          course: lesson.data.course,
+          lessonSlug: lesson.slug,
+          lessonTitle: lesson.data.title,
+          section: lesson.data.section,
+          grammarTopics: lesson.data.grammarTopics ?? [],
+        })),
+    );
+}
+
+function rowValues(row: VocabularyRow): string[] {
+  return [
+    row.spanish,
+    row.ipa,
+    row.english,
+    row.notes,
+    row.lessonTitle,
+    row.section,
+    row.grammarTopics.join('; '),
+  ];
+}
+
+/** TSV has no quoting, so tabs and line breaks become spaces */
+function tsvField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
+
+function toTsv(rows: VocabularyRow[]): string {
+  const lines = [COLUMNS, ...rows.map(rowValues)].map((values) => values.map(tsvField).join('\t'));
+  return `${lines.join('\n')}\n`;
+}
+
+/** Anki tags cannot contain spaces; `::` nests them in the tag browser */
+function ankiTags(row: VocabularyRow): string {
+  return [
+    `course::${row.course}`,
+    `lesson::${row.lessonSlug}`,
+    `section::${slugify(row.section)}`,
+    ...row.grammarTopics.map((topic) => `grammar::${grammarTopicSlug(topic)}`),
+  ].join(' ');
+}
+
+function ankiBack(row: VocabularyRow): string {
+  return [
+    escapeHtml(row.english),
+    row.ipa && `<span class="ipa">${escapeHtml(row.ipa)}</span>`,
+    row.notes && `<i>${escapeHtml(row.notes)}</i>`,
+  ]
+    .filter(Boolean)
+    .join('<br>');
+}
+
+/** Anki's text import format; the header lines set up the import dialog */
+function toAnki(rows: VocabularyRow[], deck: string): string {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    '#notetype:Basic',
+    `#deck:${deck}`,
+    '#columns:Front\tBack\tTags',
+    '#tags column:3',
+  ];
+  const lines = rows.map((row) =>
+    [escapeHtml(row.spanish), ankiBack(row), ankiTags(row)].map(tsvField).join('\t'),
+  );
+  return `${[...header, ...lines].join('\n')}\n`;
+}
+
+/**
+ * Build the download for a set of rows.
+ * `deck` (the course's short title) names the file and, for Anki, the deck;
+ * `name` adds a suffix to the file name and, for Anki, the subdeck.
+ */
+export function vocabularyExportResponse(
+  rows: VocabularyRow[],
+  format: VocabularyExportFormat,
+  deck: string,
+  name?: { slug: string; title: string },
+): Response {
+  const body =
+    format === 'csv'
+      ? toCsv([COLUMNS, ...rows.map(rowValues)])
+      : format === 'tsv'
+        ? toTsv(rows)
+        : toAnki(rows, name ? `${deck}::${name.title}` : deck);
+  const fileName = `${slugify(deck)}-vocabulary${name ? `-${name.slug}` : ''}.${format}`;
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+}
@@ -1,70 +1,92 @@
 /**
  * Authentication Middleware
  *
- * Protects all routes except /login with a simple password check.
- * Uses session cookie to persist authentication.
+ * Protects all routes except the sign-in flow with per-user sessions:
+ * - Session cookie holds a signed session ID looked up in the SESSION KV
+ * - Idle and absolute session timeouts
+ * - The signed-in user is exposed as `Astro.locals.user`
+ * - /admin routes additionally require the admin role
+ * - The interface locale (cookie) is exposed as `Astro.locals.locale`,
+ *   on public routes too
  */
 
 import { defineMiddleware } from 'astro:middleware';
-
-const COOKIE_NAME = 'auth_session';
+import {
+  clearSessionCookie,
+  getSessionConfig,
+  getSessionUser,
+  SESSION_COOKIE,
+} from './lib/auth/sessions';
+import { toPublicUser } from './lib/auth/users';
+import { DEFAULT_LOCALE, readLocale } from './lib/i18n/locales';
 
 // Public routes that don't require authentication
-const PUBLIC_ROUTES = ['/login', '/logout'];
+const PUBLIC_ROUTES = ['/login', '/logout', '/setup'];
+const PUBLIC_PREFIXES = ['/invite/'];
+const ADMIN_ROUTE = '/admin';
+// Files from /public and the build output. Anything else with a file extension
+// (e.g. vocabulary exports) is course content and needs a session.
+const PUBLIC_ASSET_PREFIXES = ['/_astro/', '/fonts/', '/images/', '/audio/'];
+// Fetched without a session cookie (manifest) or refused if redirected (service worker)
+const PUBLIC_FILES = ['/manifest.webmanifest', '/sw.js'];
 
 function isPublicAssetPath(pathname: string) {
-  // Astro build assets + common static assets
-  if (pathname.startsWith('/_astro/')) return true;
-  if (pathname.startsWith('/fonts/')) return true;
-  // Any file extension (e.g. .css, .js, .png) in /public or output
-  return /\.[a-zA-Z0-9]+$/.test(pathname);
+  return (
+    PUBLIC_FILES.includes(pathname) ||
+    PUBLIC_ASSET_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+  );
+}
+
+function isAdminRoute(pathname: string) {
+  return pathname === ADMIN_ROUTE || pathname.startsWith(`${ADMIN_ROUTE}/`);
+}
+
+function isPublicRoute(pathname: string) {
+  return (
+    PUBLIC_ROUTES.includes(pathname) ||
+    PUBLIC_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+  );
 }
 
 export const onRequest = defineMiddleware(async (context, next) => {
   // Skip middleware during build/prerendering
   // During prerendering, request.headers is not available and accessing it causes warnings
-  if (import.meta.env.BUILD) {
+  if (import.meta.env.BUILD || context.isPrerendered) {
+    context.locals.locale = DEFAULT_LOCALE;
     return next();
   }
 
-  // Wrap in try-catch to handle cases where request might not be fully available
-  try {
-    const { cookies, redirect, url, locals } = context;
-    const pathname = url.pathname;
-
-    // Allow public routes
-    if (PUBLIC_ROUTES.includes(pathname)) {
-      return next();
-    }
-
-    // Allow static assets through without auth checks
-    if (isPublicAssetPath(pathname)) {
-      return next();
-    }
+  const { cookies, redirect, url, locals } = context;
+  const pathname = url.pathname;
+  locals.locale = readLocale(cookies);
 
-    // Check for valid session cookie
-    const sessionToken = cookies.get(COOKIE_NAME);
+  // Allow public routes and static assets through without auth checks
+  if (isPublicRoute(pathname) || isPublicAssetPath(pathname)) {
+    return next();
+  }
 
-    // Access environment variable from Cloudflare runtime
-    // Note: This is available at runtime, not build time
-    const accessCode = locals.runtime?.env?.ACCESS_CODE;
+  // Access KV binding and signing secret from Cloudflare runtime
+  // Note: These are available at runtime, not build time
+  const sessionConfig = getSessionConfig(locals);
 
-    if (!accessCode) {
-      console.error('ACCESS_CODE environment variable not set!');
-      return new Response('Server configuration error', { status: 500 });
-    }
+  if (!sessionConfig) {
+    console.error('SESSION KV binding or SESSION_SECRET not configured!');
+    return new Response('Server configuration error', { status: 500 });
+  }
 
-    // Validate session
-    if (sessionToken?.value === accessCode) {
-      return next();
-    }
+  // Validate session
+  const user = await getSessionUser(sessionConfig, cookies);
 
-    // No valid session - redirect to login
+  if (!user) {
+    // Stale cookie (expired or revoked session, deleted account)
+    if (cookies.has(SESSION_COOKIE)) clearSessionCookie(cookies);
     return redirect('/login');
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  } catch (error) {
-    // During prerendering, some context properties might not be available
-    // In that case, just allow the request through
-    return next();
   }
+
+  if (isAdminRoute(pathname) && user.role !== 'admin') {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  locals.user = toPublicUser(user);
+  return next();
 });
@@ -0,0 +1,30 @@
+/**
+ * Lesson Vocabulary Export
+ *
+ * One lesson's vocabulary as CSV, TSV or an Anki import file, e.g.
+ * /mexican-spanish/lessons/lesson-01/vocabulary.csv (nested slugs work too).
+ * Formats: src/lib/vocabulary/export.ts
+ */
+
+import type { APIRoute } from 'astro';
+import { getEntry } from 'astro:content';
+import {
+  buildVocabularyRows,
+  isVocabularyExportFormat,
+  vocabularyExportResponse,
+} from '../../../../lib/vocabulary/export';
+
+export const GET: APIRoute = async ({ params }) => {
+  const { course: courseId = '', slug = '', format = '' } = params;
+  const course = await getEntry('courses', courseId);
+  const lesson = await getEntry('lessons', slug);
+
+  if (!course || lesson?.data.course !== course.slug || !isVocabularyExportFormat(format)) {
+    return new Response(null, { status: 404, statusText: 'Not found' });
+  }
+
+  return vocabularyExportResponse(buildVocabularyRows([lesson]), format, course.data.shortTitle, {
+    slug: lesson.slug,
+    title: lesson.data.title,
+  });
+};
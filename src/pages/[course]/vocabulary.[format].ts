@@ -0,0 +1,31 @@
+/**
+ * Course Vocabulary Export
+ *
+ * Every lesson's vocabulary in one file, e.g. /mexican-spanish/vocabulary.tsv,
+ * tagged with the course, lesson, section and grammar topics. Formats:
+ * src/lib/vocabulary/export.ts
+ */
+
+import type { APIRoute } from 'astro';
+import { getEntry } from 'astro:content';
+import { getCourseLessons } from '../../lib/nav-data';
+import {
+  buildVocabularyRows,
+  isVocabularyExportFormat,
+  vocabularyExportResponse,
+} from '../../lib/vocabulary/export';
+
+export const GET: APIRoute = async ({ params }) => {
+  const { course: courseId = '', format = '' } = params;
+  const course = await getEntry('courses', courseId);
+
+  if (!course || !isVocabularyExportFormat(format)) {
+    return new Response(null, { status: 404, statusText: 'Not found' });
+  }
+
+  return vocabularyExportResponse(
+    buildVocabularyRows(await getCourseLessons(course.slug)),
+    format,
+    course.data.shortTitle,
+  );
+};
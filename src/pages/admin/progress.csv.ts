@@ -0,0 +1,31 @@
+/**
+ * Class Progress Export
+ *
+ * The class progress dashboard (/admin) as a CSV file, one row per
+ * student, e.g. /admin/progress.csv?course=mexican-spanish. Columns:
+ * src/lib/progress/class-report.ts
+ *
+ * Access is restricted to admins by the middleware.
+ */
+
+import type { APIRoute } from 'astro';
+import { getActiveCourse, getCourseLessons } from '../../lib/nav-data';
+import { buildClassReport, classReportCsv } from '../../lib/progress/class-report';
+import { toDateKey } from '../../lib/review/sm2';
+
+export const GET: APIRoute = async ({ cookies, locals, url }) => {
+  const course = await getActiveCourse(cookies, url.searchParams.get('course') ?? undefined);
+  const reports = await buildClassReport(
+    locals.runtime.env.SESSION,
+    await getCourseLessons(course.slug),
+  );
+  const fileName = `${course.slug}-class-progress-${toDateKey(new Date())}.csv`;
+
+  return new Response(classReportCsv(reports), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+};
@@ -0,0 +1,43 @@
+/**
+ * Preferences Endpoint
+ *
+ * GET returns the signed-in user's synced preferences; PUT merges in
+ * changes (the most recently set value of each preference wins) and
+ * returns the result. Stored per user in the SESSION KV namespace.
+ * Preferences that stay on the device are never stored.
+ */
+
+import type { APIRoute } from 'astro';
+import { USER_DATA_NAMESPACES, getUserData, putUserData } from '../../lib/auth/user-data';
+import { json } from '../../lib/http';
+import {
+  accountPreferences,
+  emptyPreferences,
+  mergePreferences,
+  parsePreferences,
+} from '../../lib/preferences/schema';
+
+const PREFERENCES_NAMESPACE = USER_DATA_NAMESPACES.preferences;
+
+export const GET: APIRoute = async ({ locals }) => {
+  const user = locals.user;
+  if (!user) return json({ error: 'Not signed in' }, 401);
+
+  const stored = await getUserData(locals.runtime.env.SESSION, PREFERENCES_NAMESPACE, user.id);
+  return json(stored ? parsePreferences(stored) : emptyPreferences());
+};
+
+export const PUT: APIRoute = async ({ locals, request }) => {
+  const user = locals.user;
+  if (!user) return json({ error: 'Not signed in' }, 401);
+
+  const body = await request.json().catch(() => null);
+  if (typeof body !== 'object' || body === null) return json({ error: 'Invalid preferences' }, 400);
+
+  const kv = locals.runtime.env.SESSION;
+  const current = parsePreferences(await getUserData(kv, PREFERENCES_NAMESPACE, user.id));
+  const preferences = mergePreferences(current, accountPreferences(parsePreferences(body)));
+  await putUserData(kv, PREFERENCES_NAMESPACE, user.id, preferences);
+
+  return json(preferences);
+};
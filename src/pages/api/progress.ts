@@ -0,0 +1,65 @@
+/**
+ * Lesson Progress Endpoint
+ *
+ * GET returns the signed-in user's lesson progress; PUT merges in
+ * changes (the most recently updated record of each lesson wins) and
+ * returns the result. Stored per user in the SESSION KV namespace.
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { USER_DATA_NAMESPACES, getUserData, putUserData } from '../../lib/auth/user-data';
+import { json } from '../../lib/http';
+import { emptyProgress, mergeProgress, type ProgressData } from '../../lib/progress/store';
+
+const PROGRESS_NAMESPACE = USER_DATA_NAMESPACES.progress;
+
+const lessonProgressSchema = z.object({
+  scrollDepth: z.number().min(0).max(1),
+  completed: z.boolean(),
+  testedOut: z.boolean().optional(),
+  drills: z
+    .record(
+      z.string().max(50),
+      z.object({
+        score: z.number().int().min(0),
+        total: z.number().int().min(0),
+        checkedAt: z.string().datetime(),
+      }),
+    )
+    .optional(),
+  updatedAt: z.string().datetime(),
+});
+
+const updateSchema = z.object({
+  lessons: z.record(z.string().max(200), lessonProgressSchema),
+  lastLesson: z.object({ slug: z.string().max(200), visitedAt: z.string().datetime() }).optional(),
+});
+
+export const GET: APIRoute = async ({ locals }) => {
+  const user = locals.user;
+  if (!user) return json({ error: 'Not signed in' }, 401);
+
+  const progress = await getUserData<ProgressData>(
+    locals.runtime.env.SESSION,
+    PROGRESS_NAMESPACE,
+    user.id,
+  );
+  return json(progress ?? emptyProgress());
+};
+
+export const PUT: APIRoute = async ({ locals, request }) => {
+  const user = locals.user;
+  if (!user) return json({ error: 'Not signed in' }, 401);
+
+  const parsed = updateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) return json({ error: 'Invalid progress data' }, 400);
+
+  const kv = locals.runtime.env.SESSION;
+  const current =
+    (await getUserData<ProgressData>(kv, PROGRESS_NAMESPACE, user.id)) ?? emptyProgress();
+  const progress = mergeProgress(current, parsed.data);
+  await putUserData(kv, PROGRESS_NAMESPACE, user.id, progress);
+
+  return json(progress);
+};
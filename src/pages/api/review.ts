@@ -0,0 +1,68 @@
+/**
+ * Review State Endpoint
+ *
+ * GET returns the signed-in user's flashcard schedule; PUT merges in
+ * updated cards (the latest review of each card wins) and returns the
+ * result. Stored per user in the SESSION KV namespace, along with the
+ * days reviews happened on (for streaks on the class dashboard).
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { USER_DATA_NAMESPACES, getUserData, putUserData } from '../../lib/auth/user-data';
+import { json } from '../../lib/http';
+import { mergeStates, type ReviewStates } from '../../lib/review/decks';
+import { addReviewDays } from '../../lib/review/streaks';
+
+const REVIEW_NAMESPACE = USER_DATA_NAMESPACES.review;
+const REVIEW_DAYS_NAMESPACE = USER_DATA_NAMESPACES.reviewDays;
+
+const cardStateSchema = z.object({
+  ease: z.number().min(1).max(5),
+  interval: z.number().int().min(0),
+  repetitions: z.number().int().min(0),
+  lapses: z.number().int().min(0),
+  due: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  lastReviewed: z.string().datetime(),
+  reviewedOn: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+});
+
+const updateSchema = z.object({
+  states: z.record(z.string().max(200), cardStateSchema),
+});
+
+export const GET: APIRoute = async ({ locals }) => {
+  const user = locals.user;
+  if (!user) return json({ error: 'Not signed in' }, 401);
+
+  const states = await getUserData<ReviewStates>(
+    locals.runtime.env.SESSION,
+    REVIEW_NAMESPACE,
+    user.id,
+  );
+  return json({ states: states ?? {} });
+};
+
+export const PUT: APIRoute = async ({ locals, request }) => {
+  const user = locals.user;
+  if (!user) return json({ error: 'Not signed in' }, 401);
+
+  const parsed = updateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) return json({ error: 'Invalid review data' }, 400);
+
+  const kv = locals.runtime.env.SESSION;
+  const [current, days] = await Promise.all([
+    getUserData<ReviewStates>(kv, REVIEW_NAMESPACE, user.id),
+    getUserData<string[]>(kv, REVIEW_DAYS_NAMESPACE, user.id),
+  ]);
+  const states = mergeStates(current ?? {}, parsed.data.states);
+  await Promise.all([
+    putUserData(kv, REVIEW_NAMESPACE, user.id, states),
+    putUserData(kv, REVIEW_DAYS_NAMESPACE, user.id, addReviewDays(days ?? [], parsed.data.states)),
+  ]);
+
+  return json({ states });
+};
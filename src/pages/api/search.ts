@@ -0,0 +1,20 @@
+/**
+ * Search Index Endpoint
+ *
+ * Serves the site-wide search index as JSON. The index is built at build
+ * time (src/integrations/search-index.ts) and bundled with the worker.
+ * Deliberately not prerendered: prerendered files are served without
+ * passing through the auth middleware.
+ */
+
+import type { APIRoute } from 'astro';
+import searchIndex from 'virtual:search-index';
+
+export const GET: APIRoute = async () => {
+  return new Response(JSON.stringify(searchIndex), {
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+};
@@ -0,0 +1,26 @@
+/**
+ * Old Lesson URLs
+ *
+ * Lessons used to live at /lessons/<slug> before URLs were scoped to a
+ * course; bookmarks and saved links (including /lessons/<slug>/vocabulary.csv)
+ * are sent to the lesson's course. Slugs can be nested (business/lesson-01),
+ * so the longest leading part of the path that names a lesson wins.
+ */
+
+import type { APIRoute } from 'astro';
+import { getEntry } from 'astro:content';
+import { lessonHref } from '../../lib/courses';
+
+export const GET: APIRoute = async ({ params, redirect, url }) => {
+  const segments = (params.path ?? '').split('/').filter(Boolean);
+
+  for (let length = segments.length; length > 0; length -= 1) {
+    const lesson = await getEntry('lessons', segments.slice(0, length).join('/'));
+    if (lesson) {
+      const target = [lessonHref(lesson.data.course, lesson.slug), ...segments.slice(length)];
+      return redirect(`${target.join('/')}${url.search}`, 301);
+    }
+  }
+
+  return new Response(null, { status: 404, statusText: 'Not found' });
+};
@@ -0,0 +1,21 @@
+/**
+ * Old Vocabulary Export URL
+ *
+ * The whole-site export (/vocabulary.csv, /vocabulary.tsv, ...) became one
+ * export per course; saved links get the active course's file.
+ */
+
+import type { APIRoute } from 'astro';
+import { getActiveCourse } from '../lib/nav-data';
+import { isVocabularyExportFormat, vocabularyExportHref } from '../lib/vocabulary/export';
+
+export const GET: APIRoute = async ({ cookies, params, redirect }) => {
+  const { format = '' } = params;
+
+  if (!isVocabularyExportFormat(format)) {
+    return new Response(null, { status: 404, statusText: 'Not found' });
+  }
+
+  const course = await getActiveCourse(cookies);
+  return redirect(vocabularyExportHref(format, course.slug), 302);
+};
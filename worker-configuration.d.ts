@@ -5,6 +5,7 @@ declare namespace Cloudflare {
 	interface Env {
 		SESSION: KVNamespace;
 		ACCESS_CODE: string;
+		SESSION_SECRET: string;
 	}
 }
 interface Env extends Cloudflare.Env {}